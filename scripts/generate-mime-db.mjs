@@ -0,0 +1,47 @@
+// Generates src/mime-db.ts from the mime-db package, run with `npm run generate:mime-db`
+import { readFileSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+const db = require('mime-db/db.json');
+const { version } = require('mime-db/package.json');
+
+const target = new URL('../src/mime-db.ts', import.meta.url);
+const mimeTypesSource = readFileSync(new URL('../src/mime-types.ts', import.meta.url), 'utf8');
+
+// The extensions of COMMON_MIME_TYPES are left out, so that registering the dataset keeps their types
+const commonExtensions = new Set([...mimeTypesSource.matchAll(/\['([^']+)', '[^']+'\]/g)].map((match) => match[1]));
+
+// When an extension has several types, pick the one mime-types 2.x picks:
+// by source (nginx, apache, none, then iana), and a type that is not application/* on a tie
+const SOURCE_PREFERENCE = ['nginx', 'apache', undefined, 'iana'];
+
+const types = {};
+Object.keys(db).forEach((type) => {
+  const { extensions = [], source } = db[type];
+  extensions.forEach((ext) => {
+    const current = types[ext];
+    if (current && current !== 'application/octet-stream') {
+      const from = SOURCE_PREFERENCE.indexOf(db[current].source);
+      const to = SOURCE_PREFERENCE.indexOf(source);
+      if (from > to || (from === to && current.startsWith('application/'))) {
+        return;
+      }
+    }
+    types[ext] = type;
+  });
+});
+
+const key = (ext) => (/^[a-z_$][a-z0-9_$]*$/i.test(ext) ? ext : `'${ext}'`);
+const entries = Object.keys(types)
+  .filter((ext) => !commonExtensions.has(ext))
+  .sort()
+  .map((ext) => `  ${key(ext)}: '${types[ext]}',\n`);
+
+// The doc comment is kept as is, apart from the version of the dataset
+const header = readFileSync(target, 'utf8')
+  .split('export const MIME_DB')[0]
+  .replace(/\(v[\d.]+\)/, `(v${version})`);
+
+writeFileSync(target, `${header}export const MIME_DB: Record<string, string> = {\n${entries.join('')}};\n`);
+console.log(`Wrote ${entries.length} extensions from mime-db v${version}`);
@@ -3,12 +3,53 @@ import React, {
   forwardRef,
   Fragment,
   useCallback,
+  useContext,
   useEffect,
+  useId,
   useImperativeHandle,
   useMemo,
   useReducer,
   useRef,
 } from 'react';
+import { detectMimeType, mimeTypeAliases } from './file-type';
+import { addDocumentDragListener, useGlobalFileDrag } from './global-drag';
+import { FileHashes, HashAlgorithm, hashFile, HashProgress } from './hash';
+import {
+  DEFAULT_IGNORE_PATTERNS,
+  IgnoreRule,
+  isIgnored,
+  isIgnoredPath,
+  parseIgnorePatterns,
+} from './ignore';
+import {
+  createThumbnail,
+  ImageDimensions,
+  ImageTransformOptions,
+  readImageDimensions,
+  replaceExtension,
+  ThumbnailOptions,
+  transformImage,
+} from './image';
+import {
+  ErrorMessages,
+  FileErrorParams,
+  formatBytes,
+  formatFileType,
+  formatFileTypes,
+  formatMessage,
+} from './messages';
+import { COMMON_MIME_TYPES, getExtensions, getMimeType, MimeTypeMap } from './mime-types';
+import { DropzoneContext } from './provider';
+import { draggedTextType, TextAsFileOptions, textToFile, textTypes } from './text';
+import {
+  fetchUrl,
+  fileNameFromUrl,
+  getDroppedUrls,
+  htmlHasText,
+  mapWithConcurrency,
+  URL_FETCH_CONCURRENCY,
+  UrlFetcher,
+} from './url';
 
 /**
  * Check if the provided file type should be accepted by the input with accept attribute.
@@ -47,94 +88,11 @@ function accepts(
   return true;
 }
 
-export const COMMON_MIME_TYPES = new Map([
-  // https://developer.mozilla.org/en-US/docs/Web/HTTP/Basics_of_HTTP/MIME_types/Common_types
-  ['aac', 'audio/aac'],
-  ['abw', 'application/x-abiword'],
-  ['arc', 'application/x-freearc'],
-  ['avif', 'image/avif'],
-  ['avi', 'video/x-msvideo'],
-  ['azw', 'application/vnd.amazon.ebook'],
-  ['bin', 'application/octet-stream'],
-  ['bmp', 'image/bmp'],
-  ['bz', 'application/x-bzip'],
-  ['bz2', 'application/x-bzip2'],
-  ['cda', 'application/x-cdf'],
-  ['csh', 'application/x-csh'],
-  ['css', 'text/css'],
-  ['csv', 'text/csv'],
-  ['doc', 'application/msword'],
-  ['docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
-  ['eot', 'application/vnd.ms-fontobject'],
-  ['epub', 'application/epub+zip'],
-  ['gz', 'application/gzip'],
-  ['gif', 'image/gif'],
-  ['heic', 'image/heic'],
-  ['heif', 'image/heif'],
-  ['htm', 'text/html'],
-  ['html', 'text/html'],
-  ['ico', 'image/vnd.microsoft.icon'],
-  ['ics', 'text/calendar'],
-  ['jar', 'application/java-archive'],
-  ['jpeg', 'image/jpeg'],
-  ['jpg', 'image/jpeg'],
-  ['js', 'text/javascript'],
-  ['json', 'application/json'],
-  ['jsonld', 'application/ld+json'],
-  ['mid', 'audio/midi'],
-  ['midi', 'audio/midi'],
-  ['mjs', 'text/javascript'],
-  ['mp3', 'audio/mpeg'],
-  ['mp4', 'video/mp4'],
-  ['mpeg', 'video/mpeg'],
-  ['mpkg', 'application/vnd.apple.installer+xml'],
-  ['odp', 'application/vnd.oasis.opendocument.presentation'],
-  ['ods', 'application/vnd.oasis.opendocument.spreadsheet'],
-  ['odt', 'application/vnd.oasis.opendocument.text'],
-  ['oga', 'audio/ogg'],
-  ['ogv', 'video/ogg'],
-  ['ogx', 'application/ogg'],
-  ['opus', 'audio/opus'],
-  ['otf', 'font/otf'],
-  ['png', 'image/png'],
-  ['pdf', 'application/pdf'],
-  ['php', 'application/x-httpd-php'],
-  ['ppt', 'application/vnd.ms-powerpoint'],
-  ['pptx', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'],
-  ['rar', 'application/vnd.rar'],
-  ['rtf', 'application/rtf'],
-  ['sh', 'application/x-sh'],
-  ['svg', 'image/svg+xml'],
-  ['swf', 'application/x-shockwave-flash'],
-  ['tar', 'application/x-tar'],
-  ['tif', 'image/tiff'],
-  ['tiff', 'image/tiff'],
-  ['ts', 'video/mp2t'],
-  ['ttf', 'font/ttf'],
-  ['txt', 'text/plain'],
-  ['vsd', 'application/vnd.visio'],
-  ['wav', 'audio/wav'],
-  ['weba', 'audio/webm'],
-  ['webm', 'video/webm'],
-  ['webp', 'image/webp'],
-  ['woff', 'font/woff'],
-  ['woff2', 'font/woff2'],
-  ['xhtml', 'application/xhtml+xml'],
-  ['xls', 'application/vnd.ms-excel'],
-  ['xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
-  ['xml', 'application/xml'],
-  ['xul', 'application/vnd.mozilla.xul+xml'],
-  ['zip', 'application/zip'],
-  ['7z', 'application/x-7z-compressed'],
-
-  // Others
-  ['mkv', 'video/x-matroska'],
-  ['mov', 'video/quicktime'],
-  ['msg', 'application/vnd.ms-outlook'],
-]);
-
-export function toFileWithPath(file: FileWithPath, path?: string): FileWithPath {
-  const f = withMimeType(file);
+
+export { COMMON_MIME_TYPES };
+
+export function toFileWithPath(file: FileWithPath, path?: string, mimeTypes?: MimeTypeMap): FileWithPath {
+  const f = withMimeType(file, mimeTypes);
   if (typeof f.path !== 'string') {
     // on electron, path is already set to the absolute path
     const { webkitRelativePath } = file;
@@ -159,15 +117,22 @@ export function toFileWithPath(file: FileWithPath, path?: string): FileWithPath
 
 export interface FileWithPath extends File {
   readonly path?: string;
+  // The type detected from the file contents, set when content sniffing is enabled
+  readonly sniffedType?: string;
+  // The digests of the file contents, set once hashing is done
+  readonly hashes?: FileHashes;
+  // The URL the file was downloaded from, when a URL was dropped
+  readonly url?: string;
+  // Why the URL could not be downloaded, in which case the file is an empty placeholder
+  readonly fetchError?: Error;
 }
 
-function withMimeType(file: FileWithPath) {
+function withMimeType(file: FileWithPath, mimeTypes?: MimeTypeMap) {
   const { name } = file;
   const hasExtension = name && name.lastIndexOf('.') !== -1;
 
   if (hasExtension && !file.type) {
-    const ext = name.split('.').pop()!.toLowerCase();
-    const type = COMMON_MIME_TYPES.get(ext);
+    const type = getMimeType(name, mimeTypes);
     if (type) {
       Object.defineProperty(file, 'type', {
         value: type,
@@ -181,34 +146,172 @@ function withMimeType(file: FileWithPath) {
   return file;
 }
 
-const FILES_TO_IGNORE = [
-  // Thumbnail cache files for macOS and Windows
-  '.DS_Store', // macOs
-  'Thumbs.db', // Windows
-];
+/**
+ * Read the first bytes of the file and set the detected type as {sniffedType}.
+ * Files whose format is not recognised are returned as is.
+ *
+ * @param {FileWithPath} file
+ * @returns {Promise<FileWithPath>}
+ */
+export async function withSniffedType(file: FileWithPath) {
+  if (typeof file.sniffedType === 'string' || typeof file.slice !== 'function') {
+    return file;
+  }
+
+  const type = await detectMimeType(file);
+  if (type) {
+    Object.defineProperty(file, 'sniffedType', {
+      value: type,
+      writable: false,
+      configurable: false,
+      enumerable: true,
+    });
+  }
+
+  return file;
+}
+
+export interface FileTreeFile {
+  kind: 'file';
+  name: string;
+  path: string;
+  file: FileWithPath;
+}
+
+export interface FileTreeDirectory {
+  kind: 'directory';
+  name: string;
+  path: string;
+  children: FileTreeNode[];
+}
+
+export type FileTreeNode = FileTreeFile | FileTreeDirectory;
 
 /**
- * Convert a DragEvent's DataTrasfer object to a list of File objects
+ * Stands for the file a dragged link or text is turned into with `acceptUrls`/`textAsFile`,
+ * as only its type can be known during a drag. The type of a link is empty as it is only known once downloaded.
+ */
+export interface DraggedStringItem {
+  kind: 'string';
+  type: string;
+}
+
+// The list of files returned by fromEvent, with the tree they came from if it was asked for
+export type FilesWithTree<T = FileWithPath | DataTransferItem | DraggedStringItem> = T[] & {
+  tree?: FileTreeDirectory;
+  // Set when the dropped folders were not read completely because of maxDepth or maxEntries
+  truncated?: boolean;
+};
+
+export interface FromEventOptions {
+  // Return the dropped folder structure as {tree} along with the flat list of files
+  tree?: boolean;
+  // How many levels of folders are read below the dropped items
+  maxDepth?: number;
+  // How many files and folders are read in total
+  maxEntries?: number;
+  signal?: AbortSignal;
+  // Gitignore-style patterns for the files and folders to leave out, DEFAULT_IGNORE_PATTERNS by default
+  ignore?: string[];
+  // Also apply the .gitignore files found in the dropped folders
+  useGitignore?: boolean;
+  // Extension to MIME type mappings for files the browser does not know the type of
+  mimeTypes?: MimeTypeMap;
+  // Cb for when a batch of folder entries has been read
+  onProgress?: (progress: TraverseProgress) => void;
+  // Download the URLs and images dropped from other pages when no files are dropped
+  acceptUrls?: boolean;
+  fetcher?: UrlFetcher;
+  // How many of the dropped URLs are downloaded at most, the others are left out
+  maxUrls?: number;
+  // Downloads larger than this many bytes are stopped and returned with a {fetchError}
+  maxDownloadSize?: number;
+  // Turn the dropped or pasted text into a file when there are no files or URLs
+  textAsFile?: boolean | TextAsFileOptions;
+  // The accept attribute, used to pick the text payload that is turned into a file
+  accept?: string;
+}
+
+export interface TraverseProgress {
+  // Number of files found so far, including the ones in folders that are still being read
+  filesDiscovered: number;
+}
+
+// The state shared by all the folders read for one event
+interface TraversalContext {
+  options: FromEventOptions;
+  entries: number;
+  filesDiscovered: number;
+  truncated: boolean;
+  rules: IgnoreRule[];
+}
+
+/**
+ * Convert a DragEvent's DataTrasfer object (or a ClipboardEvent's clipboardData) to a list of File objects
  * NOTE: If some of the items are folders,
  * everything will be flattened and placed in the same list but the paths will be kept as a {path} property.
+ * Pass `{tree: true}` to also get the folder structure, including empty folders, as a {tree} property of the list.
+ *
+ * Reading folders stops at `maxDepth` levels below the dropped items or after `maxEntries` files and folders,
+ * in which case the list has a {truncated} property set to true.
+ * Pass an AbortSignal as `signal` to stop reading, the promise is then rejected with an AbortError.
+ * Pass `onProgress` to be told how many files were found as the folders are read.
+ *
+ * Dropped files and folders matching the gitignore-style `ignore` patterns are left out, ignored folders are not read
+ * at all. With `useGitignore`, the .gitignore files in the dropped folders are applied as well.
+ * The files picked in a file dialog are returned as they are.
+ *
+ * With `acceptUrls`, the URLs and images dragged from other pages are downloaded with `fetcher` (fetch() by default)
+ * when the drop has no files. The URLs that cannot be downloaded are returned as empty files with a {fetchError}.
+ * At most `maxUrls` URLs are downloaded, a few at a time, and downloads over `maxDownloadSize` bytes are stopped.
+ * With `textAsFile`, dropped or pasted text is returned as a file if there are neither files nor URLs.
  *
  * EXPERIMENTAL: A list of https://developer.mozilla.org/en-US/docs/Web/API/FileSystemHandle objects can also be passed as an arg
  * and a list of File objects will be returned.
  *
  * @param evt
+ * @param {FromEventOptions} [options]
  */
-export async function fromEvent(evt: Event | any): Promise<(FileWithPath | DataTransferItem)[]> {
+export async function fromEvent(
+  evt: Event | any,
+  options: FromEventOptions = {},
+): Promise<FilesWithTree> {
+  const ctx: TraversalContext = {
+    options,
+    entries: 0,
+    filesDiscovered: 0,
+    truncated: false,
+    rules: parseIgnorePatterns(options.ignore || DEFAULT_IGNORE_PATTERNS),
+  };
+  let root: FileTreeDirectory | (DataTransferItem | DraggedStringItem)[];
   if (isObject<DragEvent>(evt) && isDataTransfer(evt.dataTransfer)) {
-    return getDataTransferFiles(evt.dataTransfer, evt.type);
+    root = await getDataTransferFiles(evt.dataTransfer, evt.type, ctx);
+  } else if (isObject<ClipboardEvent>(evt) && isDataTransfer(evt.clipboardData)) {
+    root = await getDataTransferFiles(evt.clipboardData, evt.type, ctx);
   } else if (isChangeEvt(evt)) {
-    return getInputFiles(evt);
+    root = treeFromFiles(getInputFiles(evt, ctx));
   } else if (
     Array.isArray(evt) &&
     evt.every((item) => 'getFile' in item && typeof item.getFile === 'function')
   ) {
-    return getFsHandleFiles(evt);
+    root = treeFromFiles(await getFsHandleFiles(evt, ctx));
+  } else {
+    return [];
+  }
+
+  if (Array.isArray(root)) {
+    // Only the items are available during a drag
+    return root;
+  }
+
+  const files: FilesWithTree = filesFromTree(root);
+  if (options.tree) {
+    files.tree = root;
   }
-  return [];
+  if (ctx.truncated) {
+    files.truncated = true;
+  }
+  return files;
 }
 
 function isDataTransfer(value: any): value is DataTransfer {
@@ -223,37 +326,184 @@ function isObject<T>(v: any): v is T {
   return typeof v === 'object' && v !== null;
 }
 
-function getInputFiles(evt: Event) {
+function getInputFiles(evt: Event, ctx: TraversalContext) {
   return fromList<FileWithPath>((evt.target as HTMLInputElement).files).map((file) =>
-    toFileWithPath(file),
+    toFileWithPath(file, undefined, ctx.options.mimeTypes),
   );
 }
 
 // Ee expect each handle to be https://developer.mozilla.org/en-US/docs/Web/API/FileSystemFileHandle
-async function getFsHandleFiles(handles: any[]) {
+async function getFsHandleFiles(handles: any[], ctx: TraversalContext) {
   const files = await Promise.all(handles.map((h) => h.getFile()));
-  return files.map((file) => toFileWithPath(file));
+  return files.map((file) => toFileWithPath(file, undefined, ctx.options.mimeTypes));
 }
 
-async function getDataTransferFiles(dt: DataTransfer, type: string) {
+async function getDataTransferFiles(dt: DataTransfer, type: string, ctx: TraversalContext) {
   // IE11 does not support dataTransfer.items
   // See https://developer.mozilla.org/en-US/docs/Web/API/DataTransfer/items#Browser_compatibility
   if (dt.items) {
     const items = fromList<DataTransferItem>(dt.items).filter((item) => item.kind === 'file');
     // According to https://html.spec.whatwg.org/multipage/dnd.html#dndevents,
     // only 'dragstart' and 'drop' has access to the data (source node)
-    if (type !== 'drop') {
-      return items;
+    // and https://w3c.github.io/clipboard-apis/#clipboard-event-paste gives 'paste' access to it as well
+    if (type !== 'drop' && type !== 'paste') {
+      return items.length > 0 ? items : getDraggedStringItems(dt, ctx);
+    }
+    // The images of a text selection are left out when the text can be dropped instead
+    const withImages = !ctx.options.textAsFile || !htmlHasText(dt.getData('text/html'));
+    const urls =
+      items.length === 0 && ctx.options.acceptUrls
+        ? getDroppedUrls(dt, withImages).slice(0, ctx.options.maxUrls)
+        : [];
+    if (urls.length > 0) {
+      return treeFromFiles(
+        await mapWithConcurrency(urls, URL_FETCH_CONCURRENCY, (url) => fromUrl(url, ctx)),
+      );
     }
-    const files = await Promise.all(items.map(toFilePromises));
-    return noIgnoredFiles(flatten<FileWithPath>(files));
+    if (items.length === 0 && ctx.options.textAsFile) {
+      const file = textToFile(dt, ctx.options.textAsFile, (f) => accepts(f, ctx.options.accept || ''));
+      return treeFromFiles(file ? [toFileWithPath(file, undefined, ctx.options.mimeTypes)] : []);
+    }
+    const nodes = await Promise.all(items.map((item) => toFilePromises(item, ctx)));
+    return createDirNode(
+      '',
+      '/',
+      (nodes.filter(isDefined) as FileTreeNode[]).filter(
+        (node) => !isIgnored(ctx.rules, node.path, node.kind === 'directory'),
+      ),
+    );
   }
 
-  return noIgnoredFiles(fromList<FileWithPath>(dt.files).map((file) => toFileWithPath(file)));
+  const files = fromList<FileWithPath>(dt.files).map((file) =>
+    toFileWithPath(file, undefined, ctx.options.mimeTypes),
+  );
+  return treeFromFiles(await notIgnoredFiles(files, ctx));
 }
 
-function noIgnoredFiles(files: FileWithPath[]) {
-  return files.filter((file) => FILES_TO_IGNORE.indexOf(file.name) === -1);
+// The files the links or text of a drag would be turned into on drop, as far as they are known from the types
+function getDraggedStringItems(dt: DataTransfer, ctx: TraversalContext): DraggedStringItem[] {
+  const { acceptUrls, textAsFile, accept = '' } = ctx.options;
+  const types: string[] = Array.prototype.slice.call(dt.types);
+  const textType = textAsFile
+    ? draggedTextType(types, textAsFile, (fileType) => accepts({ type: fileType }, accept))
+    : undefined;
+
+  // HTML without a link is more likely a text selection than an image when text can be dropped
+  const isLink =
+    types.indexOf('text/uri-list') !== -1 || (types.indexOf('text/html') !== -1 && !textType);
+  if (acceptUrls && isLink) {
+    return [{ kind: 'string', type: '' }];
+  }
+  return textType ? [{ kind: 'string', type: textType }] : [];
+}
+
+async function fromUrl(url: string, ctx: TraversalContext): Promise<FileWithPath> {
+  const { fetcher = fetchUrl, signal, mimeTypes, maxDownloadSize } = ctx.options;
+  let file: File;
+  try {
+    const blob = await fetcher(url, signal, maxDownloadSize);
+    file =
+      blob instanceof File && blob.name
+        ? blob
+        : new File([blob], fileNameFromUrl(url, blob.type), { type: blob.type });
+  } catch (e: any) {
+    if (isAbort(e)) {
+      throw e;
+    }
+    file = new File([], fileNameFromUrl(url));
+    Object.defineProperty(file, 'fetchError', {
+      value: e instanceof Error ? e : new Error(`${e}`),
+      writable: false,
+      configurable: false,
+      enumerable: true,
+    });
+  }
+
+  Object.defineProperty(file, 'url', {
+    value: url,
+    writable: false,
+    configurable: false,
+    enumerable: true,
+  });
+  return toFileWithPath(file, undefined, mimeTypes);
+}
+
+// Dropped files that do not come from entries are filtered by their path, using the .gitignore files among them
+async function notIgnoredFiles(files: FileWithPath[], ctx: TraversalContext) {
+  let { rules } = ctx;
+
+  if (ctx.options.useGitignore) {
+    const dirs = (file: FileWithPath) => (file.path || file.name).split('/').slice(0, -1);
+    // The deeper .gitignore files take precedence
+    const gitignores = files
+      .filter((file) => file.name === '.gitignore')
+      .sort((a, b) => dirs(a).length - dirs(b).length);
+    const contents = await Promise.all(gitignores.map((file) => file.text()));
+    contents.forEach((text, i) => {
+      rules = [...rules, ...parseIgnorePatterns(text, dirs(gitignores[i]).join('/'))];
+    });
+  }
+
+  return files.filter((file) => !isIgnoredPath(rules, file.path || file.name));
+}
+
+function createDirNode(name: string, path: string, children: FileTreeNode[]): FileTreeDirectory {
+  return { kind: 'directory', name, path, children };
+}
+
+function createFileNode(file: FileWithPath): FileTreeFile {
+  return { kind: 'file', name: file.name, path: file.path || file.name, file };
+}
+
+/**
+ * Get the files of a tree in depth-first order.
+ *
+ * @param {FileTreeNode} node
+ * @returns {FileWithPath[]}
+ */
+export function filesFromTree(node: FileTreeNode): FileWithPath[] {
+  const files: FileWithPath[] = [];
+  const visit = (child: FileTreeNode) => {
+    if (child.kind === 'file') {
+      files.push(child.file);
+    } else {
+      child.children.forEach(visit);
+    }
+  };
+  visit(node);
+  return files;
+}
+
+/**
+ * Build a tree from the {path} of the files,
+ * for when the folder structure is not available (e.g. <input webkitdirectory>).
+ *
+ * @param {FileWithPath[]} files
+ * @returns {FileTreeDirectory}
+ */
+export function treeFromFiles(files: FileWithPath[]): FileTreeDirectory {
+  const root = createDirNode('', '/', []);
+
+  files.forEach((file) => {
+    const dirs = (file.path || file.name).split('/').filter((part) => part.length > 0);
+    dirs.pop();
+
+    let parent = root;
+    dirs.forEach((name) => {
+      const path = `${parent.path === '/' ? '' : parent.path}/${name}`;
+      let dir = parent.children.find(
+        (child): child is FileTreeDirectory => child.kind === 'directory' && child.name === name,
+      );
+      if (!dir) {
+        dir = createDirNode(name, path, []);
+        parent.children.push(dir);
+      }
+      parent = dir;
+    });
+    parent.children.push(createFileNode(file));
+  });
+
+  return root;
 }
 
 // IE11 does not support Array.from()
@@ -277,70 +527,141 @@ function fromList<T>(items: DataTransferItemList | FileList | null): T[] {
 }
 
 // https://developer.mozilla.org/en-US/docs/Web/API/DataTransferItem
-function toFilePromises(item: DataTransferItem) {
+function toFilePromises(
+  item: DataTransferItem,
+  ctx: TraversalContext,
+): Promise<FileTreeNode | undefined> {
   if (typeof item.webkitGetAsEntry !== 'function') {
-    return fromDataTransferItem(item);
+    return fromDataTransferItem(item, ctx);
   }
 
   const entry = item.webkitGetAsEntry();
 
+  if (entry && isIgnored(ctx.rules, entry.fullPath, entry.isDirectory)) {
+    return Promise.resolve(undefined);
+  }
+
   // Safari supports dropping an image node from a different window and can be retrieved using
   // the DataTransferItem.getAsFile() API
   // NOTE: FileSystemEntry.file() throws if trying to get the file
   if (entry && entry.isDirectory) {
-    return fromDirEntry(entry) as any;
+    return fromDirEntry(entry, ctx, 0, ctx.rules);
   }
 
-  return fromDataTransferItem(item);
+  ctx.filesDiscovered++;
+  return fromDataTransferItem(item, ctx);
 }
 
-function flatten<T>(items: any[]): T[] {
-  return items.reduce(
-    (acc, files) => [...acc, ...(Array.isArray(files) ? flatten(files) : [files])],
-    [],
-  );
-}
-
-function fromDataTransferItem(item: DataTransferItem) {
+function fromDataTransferItem(item: DataTransferItem, ctx: TraversalContext) {
   const file = item.getAsFile();
   if (!file) {
     return Promise.reject(`${item} is not a File`);
   }
-  const fwp = toFileWithPath(file);
-  return Promise.resolve(fwp);
+  const fwp = toFileWithPath(file, undefined, ctx.options.mimeTypes);
+  return Promise.resolve(createFileNode(fwp));
 }
 
 // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemEntry
-async function fromEntry(entry: any) {
-  return entry.isDirectory ? fromDirEntry(entry) : fromFileEntry(entry);
+async function fromEntry(
+  entry: any,
+  ctx: TraversalContext,
+  depth: number,
+  rules: IgnoreRule[],
+): Promise<FileTreeNode | undefined> {
+  if (!entry.isDirectory) {
+    return fromFileEntry(entry, ctx);
+  }
+
+  const { maxDepth } = ctx.options;
+  if (isDefined(maxDepth) && depth > maxDepth!) {
+    // Too deep, leave the folder out
+    ctx.truncated = true;
+    return undefined;
+  }
+  return fromDirEntry(entry, ctx, depth, rules);
+}
+
+function countFileEntries(entries: any[]) {
+  return entries.filter((entry) => !entry.isDirectory).length;
+}
+
+function createAbortError() {
+  return new DOMException('Reading the dropped files was aborted', 'AbortError');
 }
 
 // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemDirectoryEntry
-function fromDirEntry(entry: any) {
+// The rules are the ignore patterns plus the .gitignore files of the parent folders
+function fromDirEntry(entry: any, ctx: TraversalContext, depth: number, rules: IgnoreRule[]) {
   const reader = entry.createReader();
+  const { maxEntries, signal, useGitignore } = ctx.options;
+
+  return new Promise<FileTreeDirectory>((resolve, reject) => {
+    // Subfolders are read once the whole folder is listed, so a .gitignore from any batch applies to them
+    let entries: any[] = [];
+    let gitignore: any;
+
+    const done = async () => {
+      try {
+        let dirRules = rules;
+        if (useGitignore && gitignore) {
+          const { file } = await fromFileEntry(gitignore, ctx);
+          dirRules = [...rules, ...parseIgnorePatterns(await file.text(), entry.fullPath)];
+
+          const notIgnored = entries.filter(
+            (child) => !isIgnored(dirRules, child.fullPath, child.isDirectory),
+          );
+          ctx.filesDiscovered -= countFileEntries(entries) - countFileEntries(notIgnored);
+          entries = notIgnored;
+        }
 
-  return new Promise<FileArray[]>((resolve, reject) => {
-    const entries: Promise<FileValue[]>[] = [];
+        const children = await Promise.all(
+          entries.map((child) => fromEntry(child, ctx, depth + 1, dirRules)),
+        );
+        resolve(createDirNode(entry.name, entry.fullPath, children.filter(isDefined) as FileTreeNode[]));
+      } catch (err) {
+        reject(err);
+      }
+    };
 
     function readEntries() {
+      if (signal && signal.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
       // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemDirectoryEntry/createReader
       // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemDirectoryReader/readEntries
       reader.readEntries(
-        async (batch: any[]) => {
-          if (!batch.length) {
+        (batch: any[]) => {
+          if (signal && signal.aborted) {
+            reject(createAbortError());
+          } else if (!batch.length) {
             // Done reading directory
-            try {
-              const files = await Promise.all(entries);
-              resolve(files);
-            } catch (err) {
-              reject(err);
-            }
+            done();
           } else {
-            const items = Promise.all(batch.map(fromEntry));
-            entries.push(items);
+            if (isDefined(maxEntries) && ctx.entries + batch.length > maxEntries!) {
+              // Keep what fits and stop reading
+              batch = batch.slice(0, Math.max(0, maxEntries! - ctx.entries));
+              ctx.truncated = true;
+            }
+            ctx.entries += batch.length;
 
-            // Continue reading
-            readEntries();
+            gitignore = gitignore || batch.find((child) => child.isFile && child.name === '.gitignore');
+            // Ignored folders are pruned here, before they are read
+            const notIgnored = batch.filter((child) => !isIgnored(rules, child.fullPath, child.isDirectory));
+            entries = entries.concat(notIgnored);
+
+            ctx.filesDiscovered += countFileEntries(notIgnored);
+            if (ctx.options.onProgress) {
+              ctx.options.onProgress({ filesDiscovered: ctx.filesDiscovered });
+            }
+
+            if (ctx.truncated && isDefined(maxEntries) && ctx.entries >= maxEntries!) {
+              done();
+            } else {
+              // Continue reading
+              readEntries();
+            }
           }
         },
         (err: any) => {
@@ -354,12 +675,12 @@ function fromDirEntry(entry: any) {
 }
 
 // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemFileEntry
-async function fromFileEntry(entry: any) {
-  return new Promise<FileWithPath>((resolve, reject) => {
+async function fromFileEntry(entry: any, ctx: TraversalContext) {
+  return new Promise<FileTreeFile>((resolve, reject) => {
     entry.file(
       (file: FileWithPath) => {
-        const fwp = toFileWithPath(file, entry.fullPath);
-        resolve(fwp);
+        const fwp = toFileWithPath(file, entry.fullPath, ctx.options.mimeTypes);
+        resolve(createFileNode(fwp));
       },
       (err: any) => {
         reject(err);
@@ -368,101 +689,593 @@ async function fromFileEntry(entry: any) {
   });
 }
 
-// Infinite type recursion
-// https://github.com/Microsoft/TypeScript/issues/3496#issuecomment-128553540
-interface FileArray extends Array<FileValue> {}
-type FileValue = FileWithPath | FileArray[];
-
 // Error codes
 export const FILE_INVALID_TYPE = 'file-invalid-type';
 export const FILE_TOO_LARGE = 'file-too-large';
 export const FILE_TOO_SMALL = 'file-too-small';
 export const TOO_MANY_FILES = 'too-many-files';
+export const FILE_TYPE_MISMATCH = 'file-type-mismatch';
+export const FILE_EXTENSION_MISMATCH = 'file-extension-mismatch';
+export const FILE_DOUBLE_EXTENSION = 'file-double-extension';
+export const FILE_DUPLICATE = 'file-duplicate';
+export const TOTAL_SIZE_TOO_LARGE = 'total-size-too-large';
+export const IMAGE_INVALID = 'image-invalid';
+export const IMAGE_TOO_NARROW = 'image-too-narrow';
+export const IMAGE_TOO_WIDE = 'image-too-wide';
+export const IMAGE_TOO_SHORT = 'image-too-short';
+export const IMAGE_TOO_TALL = 'image-too-tall';
+export const IMAGE_INVALID_ASPECT_RATIO = 'image-invalid-aspect-ratio';
+export const URL_FETCH_FAILED = 'url-fetch-failed';
+
+// The accept attribute or a list of MIME types and extensions
+function acceptList(accept: string | string[]) {
+  return (typeof accept === 'string' ? accept.split(',') : accept).map((type) => type.trim());
+}
 
 // File Errors
-export const getInvalidTypeRejectionErr = (accept: any[]) => {
-  accept = Array.isArray(accept) && accept.length === 1 ? accept[0] : accept;
-  const messageSuffix = Array.isArray(accept) ? `one of ${accept.join(', ')}` : accept;
+export const getInvalidTypeRejectionErr = (accept: any, type?: string) => {
+  const types = acceptList(accept);
   return {
     code: FILE_INVALID_TYPE,
-    message: `File type must be ${messageSuffix}`,
+    message: `File type must be ${formatFileTypes(types)}`,
+    params: { limit: types, actual: type },
   };
 };
 
-export const getTooLargeRejectionErr = (maxSize: number) => {
+export const getTooLargeRejectionErr = (maxSize: number, size?: number) => {
   return {
     code: FILE_TOO_LARGE,
-    message: `File is larger than ${maxSize} ${maxSize === 1 ? 'byte' : 'bytes'}`,
+    message: `File is larger than ${formatBytes(maxSize)}`,
+    params: { limit: maxSize, actual: size },
   };
 };
 
-export const getTooSmallRejectionErr = (minSize: number) => {
+export const getTooSmallRejectionErr = (minSize: number, size?: number) => {
   return {
     code: FILE_TOO_SMALL,
-    message: `File is smaller than ${minSize} ${minSize === 1 ? 'byte' : 'bytes'}`,
+    message: `File is smaller than ${formatBytes(minSize)}`,
+    params: { limit: minSize, actual: size },
+  };
+};
+
+export const getTypeMismatchRejectionErr = (sniffedType: string, accept: any) => {
+  const types = acceptList(accept);
+  return {
+    code: FILE_TYPE_MISMATCH,
+    message: `File content is ${formatFileType(sniffedType)}, but file type must be ${formatFileTypes(types)}`,
+    params: { limit: types, actual: sniffedType },
+  };
+};
+
+export const getExtensionMismatchRejectionErr = (extension: string, type: string) => {
+  return {
+    code: FILE_EXTENSION_MISMATCH,
+    message: `File extension ${extension || '(none)'} does not match the file type ${type ? formatFileType(type) : '(unknown)'}`,
+    params: { extension, actual: type },
   };
 };
 
+export const getDoubleExtensionRejectionErr = (extension: string) => {
+  return {
+    code: FILE_DOUBLE_EXTENSION,
+    message: `File is an executable disguised by a double extension (${extension})`,
+    params: { extension },
+  };
+};
+
+export const getImageInvalidRejectionErr = () => {
+  return {
+    code: IMAGE_INVALID,
+    message: 'Image dimensions could not be read',
+  };
+};
+
+export const getImageTooNarrowRejectionErr = (width: number, minWidth: number) => {
+  return {
+    code: IMAGE_TOO_NARROW,
+    message: `Image is ${width}px wide, it must be at least ${minWidth}px wide`,
+    params: { limit: minWidth, actual: width },
+  };
+};
+
+export const getImageTooWideRejectionErr = (width: number, maxWidth: number) => {
+  return {
+    code: IMAGE_TOO_WIDE,
+    message: `Image is ${width}px wide, it must be at most ${maxWidth}px wide`,
+    params: { limit: maxWidth, actual: width },
+  };
+};
+
+export const getImageTooShortRejectionErr = (height: number, minHeight: number) => {
+  return {
+    code: IMAGE_TOO_SHORT,
+    message: `Image is ${height}px high, it must be at least ${minHeight}px high`,
+    params: { limit: minHeight, actual: height },
+  };
+};
+
+export const getImageTooTallRejectionErr = (height: number, maxHeight: number) => {
+  return {
+    code: IMAGE_TOO_TALL,
+    message: `Image is ${height}px high, it must be at most ${maxHeight}px high`,
+    params: { limit: maxHeight, actual: height },
+  };
+};
+
+export const getInvalidAspectRatioRejectionErr = (
+  { width, height }: ImageDimensions,
+  aspectRatio: number,
+) => {
+  return {
+    code: IMAGE_INVALID_ASPECT_RATIO,
+    message: `Image is ${width}x${height}px (aspect ratio ${formatRatio(width / height)}), its aspect ratio must be ${formatRatio(aspectRatio)}`,
+    params: { limit: aspectRatio, actual: width / height, width, height },
+  };
+};
+
+function formatRatio(ratio: number) {
+  return `${Math.round(ratio * 100) / 100}`;
+}
+
 export const TOO_MANY_FILES_REJECTION = {
   code: TOO_MANY_FILES,
   message: 'Too many files',
 };
 
+export const getTooManyFilesRejectionErr = (maxFiles: number, count: number) => {
+  return {
+    ...TOO_MANY_FILES_REJECTION,
+    params: { limit: maxFiles, actual: count },
+  };
+};
+
+export const getTotalSizeTooLargeRejectionErr = (maxTotalSize: number, totalSize?: number) => {
+  return {
+    code: TOTAL_SIZE_TOO_LARGE,
+    message: `Files are larger than ${formatBytes(maxTotalSize)} in total`,
+    params: { limit: maxTotalSize, actual: totalSize },
+  };
+};
+
+export const getUrlFetchFailedRejectionErr = (url: string, reason?: string) => {
+  return {
+    code: URL_FETCH_FAILED,
+    message: `File could not be downloaded from ${url}`,
+    params: { url, actual: reason },
+  };
+};
+
+export const FILE_DUPLICATE_REJECTION = {
+  code: FILE_DUPLICATE,
+  message: 'File has already been added',
+};
+
 // Firefox versions prior to 53 return a bogus MIME type for every file drag, so dragovers with
 // that MIME type will always be accepted
 export function fileAccepted(file: any, accept: any) {
   const isAcceptable = file.type === 'application/x-moz-file' || accepts(file, accept);
-  return [isAcceptable, isAcceptable ? null : getInvalidTypeRejectionErr(accept)];
+  return [isAcceptable, isAcceptable ? null : getInvalidTypeRejectionErr(accept, file.type)];
+}
+
+// Only the detected type is checked, a matching extension cannot make up for different contents.
+// A declared type that is another name of the detected one (e.g. image/x-icon) is accepted as well.
+export function fileContentAccepted(file: FileWithPath, accept: any) {
+  if (!file.sniffedType || !accept) {
+    return [true, null];
+  }
+  const types = mimeTypeAliases(file.sniffedType);
+  const isAcceptable =
+    types.some((type) => accepts({ type }, accept)) ||
+    (types.indexOf(file.type) !== -1 && accepts(file, accept));
+  return [isAcceptable, isAcceptable ? null : getTypeMismatchRejectionErr(file.sniffedType, accept)];
 }
 
-export function fileMatchSize(file: any, minSize: any, maxSize: any) {
+// Extensions of files that run code when opened, which are a risk when hidden behind another one (e.g. report.pdf.exe)
+const EXECUTABLE_EXTENSIONS = [
+  'app',
+  'apk',
+  'bat',
+  'cmd',
+  'com',
+  'command',
+  'cpl',
+  'dll',
+  'exe',
+  'gadget',
+  'hta',
+  'inf',
+  'jar',
+  'js',
+  'jse',
+  'lnk',
+  'msi',
+  'msp',
+  'pif',
+  'ps1',
+  'psm1',
+  'reg',
+  'scf',
+  'scr',
+  'sh',
+  'vb',
+  'vbe',
+  'vbs',
+  'wsf',
+  'wsh',
+];
+
+/**
+ * Check that the extension and the type of a file belong to the same entry of the `accept` prop,
+ * and that the file is not an executable with a double extension.
+ * Accept entries without extensions match the files whose extension maps to the entry's MIME type.
+ *
+ * @param {FileWithPath} file
+ * @param {AcceptProp} [accept]
+ * @param {MimeTypeMap} [mimeTypes] The mappings used to look up the type of an extension
+ * @returns {[boolean, FileError|null]}
+ */
+export function fileStrictlyAccepted(file: FileWithPath, accept?: Accept, mimeTypes?: MimeTypeMap) {
+  const name = (file.name || '').toLowerCase();
+  const extensions = getExtensions(name);
+  const extension = extensions.length > 0 ? `.${extensions[extensions.length - 1]}` : '';
+
+  if (extensions.length > 1 && EXECUTABLE_EXTENSIONS.indexOf(extension.slice(1)) !== -1) {
+    // Only a known inner extension makes it a disguise, unlike the version number in app-1.2.exe
+    const inner = extensions[extensions.length - 2].split('.')[0];
+    if (getMimeType(`file.${inner}`, mimeTypes)) {
+      return [false, getDoubleExtensionRejectionErr(`.${inner}${extension}`)];
+    }
+  }
+
+  if (!isDefined(accept)) {
+    return [true, null];
+  }
+
+  const type = (file.type || '').toLowerCase();
+  const extensionType = getMimeType(name, mimeTypes);
+  const isAcceptable = Object.entries(normalizeAccept(accept)!).some(
+    ([mimeType, exts]) =>
+      accepts({ type }, mimeType) &&
+      (exts.length > 0 ? accepts({ name }, exts) : !!extensionType && accepts({ type: extensionType }, mimeType)),
+  );
+  return [isAcceptable, isAcceptable ? null : getExtensionMismatchRejectionErr(extension, type)];
+}
+
+// With the accept prop, the size bounds of the rule the file matches take precedence
+export function fileMatchSize(
+  file: any,
+  minSize: any,
+  maxSize: any,
+  accept?: Accept,
+): [boolean, FileError | null] {
+  const rule = findAcceptRule(file, accept);
+  if (rule && (isDefined(rule.minSize) || isDefined(rule.maxSize))) {
+    const [match, error] = fileMatchSize(
+      file,
+      isDefined(rule.minSize) ? rule.minSize : minSize,
+      isDefined(rule.maxSize) ? rule.maxSize : maxSize,
+    );
+    return [match, error && { ...error, rule: rule.pattern }];
+  }
+
   if (isDefined(file.size)) {
     if (isDefined(minSize) && isDefined(maxSize)) {
-      if (file.size > maxSize) return [false, getTooLargeRejectionErr(maxSize)];
-      if (file.size < minSize) return [false, getTooSmallRejectionErr(minSize)];
+      if (file.size > maxSize) return [false, getTooLargeRejectionErr(maxSize, file.size)];
+      if (file.size < minSize) return [false, getTooSmallRejectionErr(minSize, file.size)];
     } else if (isDefined(minSize) && file.size < minSize)
-      return [false, getTooSmallRejectionErr(minSize)];
+      return [false, getTooSmallRejectionErr(minSize, file.size)];
     else if (isDefined(maxSize) && file.size > maxSize)
-      return [false, getTooLargeRejectionErr(maxSize)];
+      return [false, getTooLargeRejectionErr(maxSize, file.size)];
   }
   return [true, null];
 }
 
+export type DeduplicateStrategy = 'path' | 'metadata' | 'content';
+
+// Content hashes are expensive, so they are computed only once per file
+const contentKeys = new WeakMap<File, Promise<string | undefined>>();
+
+/**
+ * Get the key two files are compared by to tell if they are duplicates.
+ *
+ * @param {FileWithPath} file
+ * @param {DeduplicateStrategy} strategy Compare by `path`, by name, size and last modified date (`metadata`)
+ * or by the SHA-256 hash of the contents (`content`)
+ * @returns {Promise<string>}
+ */
+export function getDuplicateKey(
+  file: FileWithPath,
+  strategy: DeduplicateStrategy,
+): Promise<string | undefined> {
+  if (strategy === 'path') {
+    return Promise.resolve(file.path || file.name);
+  } else if (strategy === 'metadata') {
+    return Promise.resolve([file.name, file.size, file.lastModified].join(':'));
+  } else if (file.hashes && file.hashes['sha-256']) {
+    return Promise.resolve(file.hashes['sha-256']);
+  }
+
+  let key = contentKeys.get(file);
+  if (!key) {
+    key = hashFile(file).then((hashes) => hashes['sha-256']);
+    contentKeys.set(file, key);
+  }
+  return key;
+}
+
+function tooManyFiles(count: number, multiple: boolean, maxFiles: number) {
+  return (!multiple && count > 1) || (multiple && maxFiles >= 1 && count > maxFiles);
+}
+
+export interface DimensionConstraints {
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  // Width divided by height, e.g. 16 / 9
+  aspectRatio?: number;
+  // Allowed relative difference from the aspect ratio, e.g. 0.01 for 1%
+  aspectRatioTolerance?: number;
+}
+
+function hasDimensionConstraints({
+  minWidth,
+  maxWidth,
+  minHeight,
+  maxHeight,
+  aspectRatio,
+}: DimensionConstraints) {
+  return [minWidth, maxWidth, minHeight, maxHeight, aspectRatio].some(isDefined);
+}
+
+function isImage(file: any) {
+  return typeof file.type === 'string' && file.type.startsWith('image/');
+}
+
+/**
+ * Apply the image transform to a file if its type is accepted.
+ * Unless the size is checked after the transform, files that are too small or large are left as is.
+ *
+ * @param {FileWithPath} file
+ * @param {ImageTransformOptions} options
+ * @param {string} accept
+ * @param {number} minSize
+ * @param {number} maxSize
+ * @returns {Promise<FileWithPath>}
+ */
+export async function transformAcceptedImage(
+  file: FileWithPath,
+  options: ImageTransformOptions,
+  accept: any,
+  minSize: any,
+  maxSize: any,
+  rules?: Accept,
+) {
+  const [accepted] = fileAccepted(file, accept);
+  const [sizeMatch] = fileMatchSize(file, minSize, maxSize, rules);
+  if (!accepted || !isImage(file) || (!options.checkSizeAfterTransform && !sizeMatch)) {
+    return file;
+  }
+
+  const transformed = await transformImage(file, options);
+  if (transformed === file) {
+    return file;
+  }
+
+  const path = file.path || file.name;
+  return toFileWithPath(
+    transformed,
+    transformed.type === file.type ? path : replaceExtension(path, transformed.type),
+  );
+}
+
+/**
+ * Check the pixel size of an image against the dimension constraints.
+ * Files that are not images always match.
+ *
+ * @param {File} file
+ * @param {ImageDimensions|undefined} dimensions The size of the image, undefined if it could not be read
+ * @param {DimensionConstraints} constraints
+ * @returns {[boolean, FileError[]]}
+ */
+export function fileMatchDimensions(
+  file: any,
+  dimensions: ImageDimensions | undefined,
+  constraints: DimensionConstraints,
+): [boolean, FileError[]] {
+  const { minWidth, maxWidth, minHeight, maxHeight, aspectRatio, aspectRatioTolerance = 0.01 } =
+    constraints;
+
+  if (!isImage(file) || !hasDimensionConstraints(constraints)) {
+    return [true, []];
+  }
+  if (!dimensions) {
+    return [false, [getImageInvalidRejectionErr()]];
+  }
+
+  const { width, height } = dimensions;
+  const errors: FileError[] = [];
+
+  if (isDefined(minWidth) && width < minWidth!) {
+    errors.push(getImageTooNarrowRejectionErr(width, minWidth!));
+  }
+  if (isDefined(maxWidth) && width > maxWidth!) {
+    errors.push(getImageTooWideRejectionErr(width, maxWidth!));
+  }
+  if (isDefined(minHeight) && height < minHeight!) {
+    errors.push(getImageTooShortRejectionErr(height, minHeight!));
+  }
+  if (isDefined(maxHeight) && height > maxHeight!) {
+    errors.push(getImageTooTallRejectionErr(height, maxHeight!));
+  }
+  if (isDefined(aspectRatio) && Math.abs(width / height / aspectRatio! - 1) > aspectRatioTolerance) {
+    errors.push(getInvalidAspectRatioRejectionErr(dimensions, aspectRatio!));
+  }
+
+  return [errors.length === 0, errors];
+}
+
+// Files without a size (e.g. DataTransferItem during a drag) do not count
+function totalSize(files: any[]) {
+  return files.reduce((total, file) => total + (isDefined(file.size) ? file.size : 0), 0);
+}
+
+function totalSizeTooLarge(files: any[], maxTotalSize: number) {
+  return isDefined(maxTotalSize) && totalSize(files) > maxTotalSize;
+}
+
 function isDefined(value: any) {
   return value !== undefined && value !== null;
 }
 
+function isPromise<T>(value: any): value is Promise<T> {
+  return isObject<Promise<T>>(value) && typeof value.then === 'function';
+}
+
+/**
+ * Run the custom validator for each file and wait for any async results.
+ *
+ * @param {File[]} files
+ * @param {Function} [validator]
+ * @returns {Promise<(FileError|FileError[]|null)[]>}
+ */
+export function validateFiles(files: any[], validator?: DropzoneOptions['validator']) {
+  return Promise.all(files.map((file) => (validator ? validator(file) : null)));
+}
+
 /**
+ * Run the custom validator on the dragged items without waiting for async results.
+ * The items are not files until they are dropped, so a pending result (or a validator that throws
+ * because it reads the file contents) does not reject an item during a drag.
+ *
+ * @param {(DataTransferItem|DraggedStringItem|File)[]} items
+ * @param {Function} [validator]
+ * @returns {(FileError|FileError[]|null)[]}
+ */
+export function validateDraggedItems(items: any[], validator?: DropzoneOptions['validator']) {
+  return items.map((item) => {
+    if (!validator) {
+      return null;
+    }
+    try {
+      const result = validator(item);
+      if (isPromise(result)) {
+        // Unknown until the files are dropped
+        result.catch(noop);
+        return null;
+      }
+      return result;
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Check if the files or dragged items would all be accepted, see getDragRejections().
+ *
+ * @param {object} options The options of getDragRejections()
+ * @param {(f: File) => FileError|FileError[]|null|Promise<FileError|FileError[]|null>} [options.validator]
+ * Run if `validationResults` is not given, only its synchronous results count
+ * @returns {boolean}
+ */
+export function allFilesAccepted({
+  validator,
+  validationResults,
+  ...options
+}: DragCheckOptions & { validator?: DropzoneOptions['validator'] }) {
+  const results = validationResults || validateDraggedItems(options.files, validator);
+  return getDragRejections({ ...options, validationResults: results }).length === 0;
+}
+
+/**
+ * Check the dragged items with the same rules as a drop, as far as they can be checked during a drag:
+ * browsers only expose the type of the items until they are dropped, so the checks that need the name,
+ * size or contents of a file (strict accept, dimensions, accept rule validators) only apply to dropped files.
+ * The size checks (`minSize`, `maxSize`, `maxTotalSize`) only apply to the given File objects,
+ * DataTransferItems have no size.
  *
  * @param {object} options
- * @param {File[]} options.files
- * @param {string|string[]} [options.accept]
+ * @param {(DataTransferItem|DraggedStringItem|File)[]} options.files
+ * @param {AcceptProp} [options.accept]
  * @param {number} [options.minSize]
  * @param {number} [options.maxSize]
  * @param {boolean} [options.multiple]
  * @param {number} [options.maxFiles]
- * @param {(f: File) => FileError|FileError[]|null} [options.validator]
- * @returns
+ * @param {(FileError|FileError[]|null)[]} [options.validationResults] Resolved validator results, in the same order as files
+ * @param {number} [options.maxTotalSize] Only checked against the size of File objects
+ * @param {File[]} [options.existingFiles] Files already accepted, which count towards `multiple`, `maxFiles`
+ * and `maxTotalSize`
+ * @returns {DragRejection[]}
  */
-export function allFilesAccepted({
+export function getDragRejections({
   files,
   accept,
   minSize,
   maxSize,
-  multiple,
-  maxFiles,
-  validator,
-}: any) {
-  if ((!multiple && files.length > 1) || (multiple && maxFiles >= 1 && files.length > maxFiles)) {
-    return false;
-  }
+  multiple = true,
+  maxFiles = 0,
+  validationResults = [],
+  maxTotalSize = Infinity,
+  existingFiles = [],
+}: DragCheckOptions): DragRejection[] {
+  const acceptAttr = accept ? acceptPropAsAcceptAttr(accept) : undefined;
+  const acceptedItems: any[] = [];
+  const rejections: DragRejection[] = [];
+
+  files.forEach((item, i) => {
+    // The type of a dragged link is unknown until it is downloaded
+    const [accepted, acceptError] = isUnknownLink(item)
+      ? [true, null]
+      : fileAccepted(item, acceptAttr);
+    const [sizeMatch, sizeError] = fileMatchSize(item, minSize, maxSize, accept);
+    // A pending async result cannot be checked synchronously, so it does not reject the item
+    const customErrors = isPromise(validationResults[i]) ? null : validationResults[i];
+
+    if (accepted && sizeMatch && !customErrors) {
+      acceptedItems.push(item);
+    } else {
+      const errors = [acceptError, sizeError].concat(customErrors || []);
+      rejections.push({ item, errors: errors.filter((e) => e) as FileError[] });
+    }
+  });
 
-  return files.every((file: any) => {
-    const [accepted] = fileAccepted(file, accept);
-    const [sizeMatch] = fileMatchSize(file, minSize, maxSize);
-    const customErrors = validator ? validator(file) : null;
-    return accepted && sizeMatch && !customErrors;
+  const overRuleLimits = filesOverRuleLimits(acceptedItems, existingFiles, accept);
+  overRuleLimits.forEach((error, item) => {
+    rejections.push({ item, errors: [error] });
   });
+  const rest = acceptedItems.filter((item) => !overRuleLimits.has(item));
+
+  const count = existingFiles.length + rest.length;
+  if (tooManyFiles(count, multiple, maxFiles)) {
+    const error = getTooManyFilesRejectionErr(multiple ? maxFiles : 1, count);
+    rest.forEach((item) => rejections.push({ item, errors: [error] }));
+  } else if (totalSizeTooLarge([...existingFiles, ...rest], maxTotalSize)) {
+    const error = getTotalSizeTooLargeRejectionErr(maxTotalSize, totalSize([...existingFiles, ...rest]));
+    rest.forEach((item) => rejections.push({ item, errors: [error] }));
+  }
+
+  return rejections;
+}
+
+function isUnknownLink(item: any) {
+  return item.kind === 'string' && !item.type;
+}
+
+// Only the type of a dragged item is known, so its messages are built for a file without a name or contents
+function draggedItemAsFile(item: DataTransferItem | DraggedStringItem | File) {
+  return item instanceof File ? item : new File([], '', { type: item.type });
+}
+
+/**
+ * Get the number and the distinct MIME types of the dragged items.
+ *
+ * @param {(DataTransferItem|DraggedStringItem|File)[]} items
+ * @returns {DraggedItems}
+ */
+export function getDraggedItems(items: any[]): DraggedItems {
+  const types = items.map((item) => item.type).filter((type, i, all) => type && all.indexOf(type) === i);
+  return { count: items.length, types };
 }
 
 // React's synthetic events has event.isPropagationStopped,
@@ -477,18 +1290,53 @@ export function isPropagationStopped(event: any) {
   return false;
 }
 
-export function isEvtWithFiles(event: any) {
-  if (!event.dataTransfer) {
+/**
+ * Check if an event carries files, or URLs or text that can be turned into files with `acceptUrls`/`textAsFile`.
+ * On drop and paste, links and HTML only count if there is a URL or an image to download in them.
+ *
+ * @param {any} event
+ * @param {object} [options]
+ * @param {boolean} [options.acceptUrls]
+ * @param {boolean|TextAsFileOptions} [options.textAsFile]
+ * @returns {boolean}
+ */
+export function isEvtWithFiles(
+  event: any,
+  {
+    acceptUrls = false,
+    textAsFile = false,
+  }: { acceptUrls?: boolean; textAsFile?: boolean | TextAsFileOptions } = {},
+) {
+  const dataTransfer = event.dataTransfer || event.clipboardData;
+  if (!dataTransfer) {
     return !!event.target && !!event.target.files;
   }
+  // The data can only be read on drop and paste, until then any link or HTML might hold something to download
+  const canReadData = event.type === 'drop' || event.type === 'paste';
   // https://developer.mozilla.org/en-US/docs/Web/API/DataTransfer/types
   // https://developer.mozilla.org/en-US/docs/Web/API/HTML_Drag_and_Drop_API/Recommended_drag_types#file
+  // https://developer.mozilla.org/en-US/docs/Web/API/HTML_Drag_and_Drop_API/Recommended_drag_types#dragging_links
   return Array.prototype.some.call(
-    event.dataTransfer.types,
-    (type) => type === 'Files' || type === 'application/x-moz-file',
+    dataTransfer.types,
+    (type) =>
+      type === 'Files' ||
+      type === 'application/x-moz-file' ||
+      (acceptUrls &&
+        (type === 'text/uri-list' || type === 'text/html') &&
+        (!canReadData || getDroppedUrls(dataTransfer).length > 0)) ||
+      (!!textAsFile && textTypes(textAsFile).indexOf(type) !== -1),
   );
 }
 
+// Pastes into form fields and rich text editors are left to them
+function isEditableTarget(target: any) {
+  if (!target || typeof target !== 'object') {
+    return false;
+  }
+  const tagName = typeof target.tagName === 'string' ? target.tagName.toLowerCase() : '';
+  return tagName === 'input' || tagName === 'textarea' || tagName === 'select' || !!target.isContentEditable;
+}
+
 export function isKindFile(item: any) {
   return typeof item === 'object' && item !== null && item.kind === 'file';
 }
@@ -548,7 +1396,7 @@ export function canUseFileSystemAccessAPI() {
  */
 export function pickerOptionsFromAccept(accept: any) {
   if (isDefined(accept)) {
-    const acceptForPicker = Object.entries(accept)
+    const acceptForPicker = Object.entries(normalizeAccept(accept)!)
       .filter(([mimeType, ext]) => {
         let ok = true;
 
@@ -592,7 +1440,7 @@ export function pickerOptionsFromAccept(accept: any) {
 export function acceptPropAsAcceptAttr(accept: Accept) {
   if (isDefined(accept)) {
     return (
-      Object.entries(accept)
+      Object.entries(normalizeAccept(accept)!)
         .reduce((a, [mimeType, ext]) => [...a, mimeType, ...ext], [] as any[])
         // Silently discard invalid entries as pickerOptionsFromAccept warns about these
         .filter((v) => isMIMEType(v) || isExt(v))
@@ -603,6 +1451,120 @@ export function acceptPropAsAcceptAttr(accept: Accept) {
   return undefined;
 }
 
+function ruleExtensions(value: string[] | AcceptRule) {
+  return Array.isArray(value) ? value : value.extensions || [];
+}
+
+/**
+ * Convert the `{accept}` dropzone prop to a map of MIME types to extensions, leaving out the rest of the rules.
+ *
+ * @param {AcceptProp} [accept]
+ * @returns {Object.<string, string[]>|undefined}
+ */
+export function normalizeAccept(accept?: Accept) {
+  if (!isDefined(accept)) {
+    return undefined;
+  }
+  return Object.entries(accept!).reduce(
+    (agg, [mimeType, value]) => ({
+      ...agg,
+      [mimeType]: ruleExtensions(value),
+    }),
+    {} as { [key: string]: string[] },
+  );
+}
+
+/**
+ * Find the first entry of the `{accept}` dropzone prop that a file matches by type or extension.
+ *
+ * @param {File} file
+ * @param {AcceptProp} [accept]
+ * @returns {MatchedAcceptRule|undefined}
+ */
+export function findAcceptRule(file: any, accept?: Accept): MatchedAcceptRule | undefined {
+  if (!isDefined(accept)) {
+    return undefined;
+  }
+  const entry = Object.entries(accept!).find(([mimeType, value]) =>
+    accepts(file, [mimeType, ...ruleExtensions(value)]),
+  );
+  if (!entry) {
+    return undefined;
+  }
+  const [pattern, value] = entry;
+  return Array.isArray(value) ? { pattern, extensions: value } : { ...value, pattern };
+}
+
+/**
+ * Run the validators of the accept rules the files match.
+ *
+ * @param {File[]} files
+ * @param {AcceptProp} [accept]
+ * @returns {Promise<(FileError|FileError[]|null)[]>}
+ */
+export function validateAcceptRules(files: any[], accept?: Accept) {
+  return Promise.all(
+    files.map((file) => {
+      const rule = findAcceptRule(file, accept);
+      return rule && rule.validator ? rule.validator(file) : null;
+    }),
+  );
+}
+
+function hasRuleValidators(accept?: Accept) {
+  return (
+    isDefined(accept) &&
+    Object.values(accept!).some((value) => !Array.isArray(value) && !!value.validator)
+  );
+}
+
+// Combine the results of the validator prop and of the accept rule validator, null if both passed
+function mergeValidationResults(result: any, ruleResult: any, rule?: MatchedAcceptRule) {
+  const ruleErrors = ([] as FileError[])
+    .concat(ruleResult || [])
+    .map((error) => ({ ...error, rule: rule && rule.pattern }));
+  const errors = ([] as FileError[]).concat(result || [], ruleErrors);
+  return errors.length > 0 ? errors : null;
+}
+
+/**
+ * Reject the accepted files of the types that have more files than the `maxFiles` of their accept rule.
+ * Like with the `maxFiles` prop, all the dropped files of such a type are rejected.
+ *
+ * @param {File[]} files The accepted files of a drop
+ * @param {File[]} existingFiles The files that were accepted before, in append mode
+ * @param {AcceptProp} [accept]
+ * @returns {Map<File, FileError>} The error for each file to reject
+ */
+export function filesOverRuleLimits(files: any[], existingFiles: any[], accept?: Accept) {
+  const errors = new Map<File, FileError>();
+  const rules = new Map<string, { rule: MatchedAcceptRule; files: File[]; count: number }>();
+
+  const count = (file: any, isExisting: boolean) => {
+    const rule = findAcceptRule(file, accept);
+    if (!rule || !isDefined(rule.maxFiles)) {
+      return;
+    }
+    const group = rules.get(rule.pattern) || { rule, files: [], count: 0 };
+    group.count++;
+    if (!isExisting) {
+      group.files.push(file);
+    }
+    rules.set(rule.pattern, group);
+  };
+  existingFiles.forEach((file) => count(file, true));
+  files.forEach((file) => count(file, false));
+
+  rules.forEach(({ rule, files: ruleFiles, count: ruleCount }) => {
+    if (ruleCount > rule.maxFiles!) {
+      const error = { ...getTooManyFilesRejectionErr(rule.maxFiles!, ruleCount), rule: rule.pattern };
+      ruleFiles.forEach((file) => errors.set(file, error));
+    }
+  });
+
+  return errors;
+}
+
 /**
  * Check if v is an exception caused by aborting a request (e.g window.showOpenFilePicker()).
  *
@@ -651,21 +1613,50 @@ export function isExt(v: any) {
 }
 
 /**
- * @typedef {Object.<string, string[]>} AcceptProp
+ * @typedef {object} AcceptRule
+ * @property {string[]} [extensions]
+ * @property {number} [minSize] Used instead of the `minSize` prop for the files of this type
+ * @property {number} [maxSize] Used instead of the `maxSize` prop for the files of this type
+ * @property {number} [maxFiles] Max number of accepted files of this type
+ * @property {Function} [validator] Run for the files of this type, after the `validator` prop
+ */
+
+/**
+ * @typedef {Object.<string, string[]|AcceptRule>} AcceptProp
  */
 
 /**
  * @typedef {object} FileError
  * @property {string} message
  * @property {ErrorCode|string} code
+ * @property {FileErrorParams} [params] The values the error is about, e.g. `{limit, actual}` for size errors
+ * @property {string} [rule] The key of the accept rule that rejected the file, e.g. `image/*`
  */
 
 /**
- * @typedef {"file-invalid-type"|"file-too-large"|"file-too-small"|"too-many-files"} ErrorCode
+ * @typedef {"file-invalid-type"|"file-too-large"|"file-too-small"|"too-many-files"|"file-type-mismatch"|"file-extension-mismatch"|"file-double-extension"|"file-duplicate"|"total-size-too-large"|"image-invalid"|"image-too-narrow"|"image-too-wide"|"image-too-short"|"image-too-tall"|"image-invalid-aspect-ratio"|"url-fetch-failed"} ErrorCode
  */
 
+/**
+ * Limits for the files of one accepted type, in place of the list of extensions.
+ */
+export interface AcceptRule {
+  extensions?: string[];
+  minSize?: number;
+  maxSize?: number;
+  maxFiles?: number;
+  validator?: <T extends File>(
+    file: T,
+  ) => FileError | FileError[] | null | Promise<FileError | FileError[] | null>;
+}
+
 export interface Accept {
-  [key: string]: string[];
+  [key: string]: string[] | AcceptRule;
+}
+
+// An accept rule with the MIME type or pattern it is keyed by
+export interface MatchedAcceptRule extends AcceptRule {
+  pattern: string;
 }
 
 export interface DropzoneProps extends DropzoneOptions {
@@ -677,11 +1668,73 @@ export const ErrorCode = {
   FileTooLarge: FILE_TOO_LARGE,
   FileTooSmall: FILE_TOO_SMALL,
   TooManyFiles: TOO_MANY_FILES,
+  FileTypeMismatch: FILE_TYPE_MISMATCH,
+  FileExtensionMismatch: FILE_EXTENSION_MISMATCH,
+  FileDoubleExtension: FILE_DOUBLE_EXTENSION,
+  FileDuplicate: FILE_DUPLICATE,
+  TotalSizeTooLarge: TOTAL_SIZE_TOO_LARGE,
+  ImageInvalid: IMAGE_INVALID,
+  ImageTooNarrow: IMAGE_TOO_NARROW,
+  ImageTooWide: IMAGE_TOO_WIDE,
+  ImageTooShort: IMAGE_TOO_SHORT,
+  ImageTooTall: IMAGE_TOO_TALL,
+  ImageInvalidAspectRatio: IMAGE_INVALID_ASPECT_RATIO,
+  UrlFetchFailed: URL_FETCH_FAILED,
 };
 
 export interface FileError {
   message: string;
   code: typeof ErrorCode | string;
+  // The values the error is about, e.g. {limit: maxSize, actual: file.size}
+  params?: FileErrorParams;
+  // The key of the accept rule that rejected the file
+  rule?: string;
+}
+
+const SIZE_ERROR_CODES = [FILE_TOO_LARGE, FILE_TOO_SMALL, TOTAL_SIZE_TOO_LARGE];
+const TYPE_ERROR_CODES = [FILE_INVALID_TYPE, FILE_TYPE_MISMATCH, FILE_EXTENSION_MISMATCH];
+
+function formatErrorParam(code: string, value: any, locale?: string): string {
+  if (SIZE_ERROR_CODES.indexOf(code) !== -1 && typeof value === 'number') {
+    return formatBytes(value, locale);
+  }
+  if (TYPE_ERROR_CODES.indexOf(code) !== -1 && isDefined(value)) {
+    return Array.isArray(value) ? formatFileTypes(value, locale) : formatFileType(`${value}`);
+  }
+  if (typeof value === 'number') {
+    return new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value);
+  }
+  return isDefined(value) ? `${value}` : '';
+}
+
+/**
+ * Replace the message of an error with the one given for its code, if any.
+ * Sizes in templates are shown in human units (e.g. `10 MB`) and types by name (e.g. `PNG or PDF`).
+ *
+ * @param {FileError} error
+ * @param {File} file The file the error is about
+ * @param {ErrorMessages} messages Templates or functions, keyed by error code
+ * @param {string} [locale] Used to format numbers and lists
+ * @returns {FileError}
+ */
+export function formatFileError(
+  error: FileError,
+  file: File,
+  messages: ErrorMessages,
+  locale?: string,
+): FileError {
+  const code = error.code as string;
+  const message = messages[code];
+  if (!isDefined(message)) {
+    return error;
+  }
+
+  const params = error.params || {};
+  const formattedParams = Object.keys(params).reduce(
+    (formatted, key) => ({ ...formatted, [key]: formatErrorParam(code, params[key], locale) }),
+    {} as { [key: string]: string },
+  );
+  return { ...error, message: formatMessage(message, params, formattedParams, file) };
 }
 
 export interface FileRejection {
@@ -689,51 +1742,136 @@ export interface FileRejection {
   errors: FileError[];
 }
 
-export type DropzoneOptions = Pick<React.HTMLProps<HTMLElement>, PropTypes> & {
+export interface DragRejection {
+  // Only the type of the dragged items is known until they are dropped
+  item: DataTransferItem | DraggedStringItem | File;
+  errors: FileError[];
+}
+
+export interface DragCheckOptions {
+  files: (DataTransferItem | DraggedStringItem | File)[];
+  accept?: Accept;
+  minSize?: number;
+  maxSize?: number;
+  multiple?: boolean;
+  maxFiles?: number;
+  // Resolved validator results, in the same order as files
+  validationResults?: (FileError | FileError[] | null)[];
+  // Only checked against the size of File objects, dragged items have no size
+  maxTotalSize?: number;
+  // Files already accepted, which count towards multiple, maxFiles and maxTotalSize
+  existingFiles?: File[];
+}
+
+export interface DraggedItems {
+  count: number;
+  types: string[];
+}
+
+export interface FilePreview {
+  file: File;
+  url: string;
+}
+
+export interface PreviewOptions {
+  // Render downscaled images instead of pointing the preview at the whole file
+  thumbnail?: ThumbnailOptions;
+}
+
+export type DropzoneOptions = Pick<React.HTMLProps<HTMLElement>, PropTypes> & DimensionConstraints & {
   accept?: Accept;
   minSize?: number;
   maxSize?: number;
+  maxTotalSize?: number;
   maxFiles?: number;
   preventDropOnDocument?: boolean;
+  trackGlobalDrag?: boolean;
   noClick?: boolean;
   noKeyboard?: boolean;
   noDrag?: boolean;
   noDragEventsBubbling?: boolean;
+  noPaste?: boolean;
+  pasteOnDocument?: boolean;
+  append?: boolean;
+  deduplicate?: DeduplicateStrategy | false;
+  duplicateAction?: 'reject' | 'ignore';
+  hash?: HashAlgorithm | HashAlgorithm[] | false;
+  hashChunkSize?: number;
+  onHashProgress?: (file: FileWithPath, progress: HashProgress) => void;
+  onHashComplete?: (file: FileWithPath, hashes: FileHashes) => void;
+  previews?: boolean | PreviewOptions;
+  transformImages?: ImageTransformOptions | false;
+  tree?: boolean;
+  maxDepth?: number;
+  maxEntries?: number;
+  onTraverseProgress?: (progress: TraverseProgress) => void;
+  ignore?: string[];
+  useGitignore?: boolean;
+  mimeTypes?: MimeTypeMap;
+  acceptUrls?: boolean;
+  fetcher?: UrlFetcher;
+  textAsFile?: boolean | TextAsFileOptions;
+  zoneId?: string;
   disabled?: boolean;
   onDrop?: <T extends File>(
     acceptedFiles: T[],
     fileRejections: FileRejection[],
     event: DropEvent,
+    tree?: FileTreeDirectory,
   ) => void;
   onDropAccepted?: <T extends File>(files: T[], event: DropEvent) => void;
   onDropRejected?: (fileRejections: FileRejection[], event: DropEvent) => void;
-  getFilesFromEvent?: (event: DropEvent) => Promise<Array<File | DataTransferItem>>;
+  getFilesFromEvent?: (
+    event: DropEvent,
+    options?: FromEventOptions,
+  ) => Promise<Array<File | DataTransferItem | DraggedStringItem>>;
   onFileDialogCancel?: () => void;
   onFileDialogOpen?: () => void;
   onError?: (err: Error) => void;
-  validator?: <T extends File>(file: T) => FileError | FileError[] | null;
+  validator?: <T extends File>(
+    file: T,
+  ) => FileError | FileError[] | null | Promise<FileError | FileError[] | null>;
   useFsAccessApi?: boolean;
   autoFocus?: boolean;
+  sniffMimeType?: boolean;
+  strictAccept?: boolean;
+  messages?: ErrorMessages;
+  locale?: string;
 };
 
 export type DropEvent =
   | React.DragEvent<HTMLElement>
   | React.ChangeEvent<HTMLInputElement>
+  | React.ClipboardEvent<HTMLElement>
   | DragEvent
+  | ClipboardEvent
   | Event;
 
 export type DropzoneState = DropzoneRef & {
+  zoneId: string;
   isFocused: boolean;
   isDragActive: boolean;
   isDragAccept: boolean;
   isDragReject: boolean;
+  isDragGlobal: boolean;
+  draggedItems: DraggedItems;
+  dragRejections: DragRejection[];
   isFileDialogActive: boolean;
+  isValidating: boolean;
+  isHashing: boolean;
+  isReadingFiles: boolean;
+  filesDiscovered: number;
   acceptedFiles: File[];
   fileRejections: FileRejection[];
+  previews: FilePreview[];
   rootRef: React.RefObject<HTMLElement>;
   inputRef: React.RefObject<HTMLInputElement>;
   getRootProps: <T extends DropzoneRootProps>(props?: T) => T;
   getInputProps: <T extends DropzoneInputProps>(props?: T) => T;
+  removeFile: (file: File) => void;
+  replaceFile: (file: File, newFile: File) => void;
+  clearFiles: () => void;
+  clearRejections: () => void;
 };
 
 export interface DropzoneRef {
@@ -784,17 +1922,37 @@ const defaultProps = {
   disabled: false,
   getFilesFromEvent: fromEvent,
   maxSize: Infinity,
+  maxTotalSize: Infinity,
   minSize: 0,
   multiple: true,
   maxFiles: 0,
   preventDropOnDocument: true,
+  trackGlobalDrag: false,
   noClick: false,
   noKeyboard: false,
   noDrag: false,
   noDragEventsBubbling: false,
+  noPaste: false,
+  pasteOnDocument: false,
+  append: false,
+  deduplicate: false as DeduplicateStrategy | false,
+  duplicateAction: 'reject' as 'reject' | 'ignore',
+  hash: false as HashAlgorithm | HashAlgorithm[] | false,
+  hashChunkSize: 4 * 1024 * 1024,
+  previews: false as boolean | PreviewOptions,
+  transformImages: false as ImageTransformOptions | false,
+  tree: false,
+  maxDepth: Infinity,
+  maxEntries: Infinity,
+  ignore: DEFAULT_IGNORE_PATTERNS,
+  useGitignore: false,
+  acceptUrls: false,
+  textAsFile: false as boolean | TextAsFileOptions,
   validator: null as any,
   useFsAccessApi: true,
   autoFocus: false,
+  sniffMimeType: false,
+  strictAccept: false,
 };
 
 Dropzone.defaultProps = defaultProps;
@@ -818,6 +1976,8 @@ export default Dropzone;
  * @param {File[]} acceptedFiles List of accepted files
  * @param {FileRejection[]} fileRejections List of rejected files and why they were rejected
  * @param {(DragEvent|Event)} event A drag event or input change event (if files were selected via the file dialog)
+ * @param {FileTreeDirectory} [tree] The structure of the dropped folders, if the `tree` prop is set.
+ * It is the raw drop, see the `tree` prop
  */
 
 /**
@@ -845,6 +2005,7 @@ export default Dropzone;
  *
  * @callback getFilesFromEvent
  * @param {(DragEvent|Event)} event A drag event or input change event (if files were selected via the file dialog)
+ * @param {FromEventOptions} [options] Options for reading the files, e.g. `{tree: true}`
  * @returns {(File[]|Promise<File[]>)}
  */
 
@@ -852,13 +2013,23 @@ export default Dropzone;
  * An object with the current dropzone state.
  *
  * @typedef {object} DropzoneState
+ * @property {string} zoneId The id of the dropzone within its DropzoneProvider
  * @property {boolean} isFocused Dropzone area is in focus
  * @property {boolean} isFileDialogActive File dialog is opened
  * @property {boolean} isDragActive Active drag is in progress
  * @property {boolean} isDragAccept Dragged files are accepted
  * @property {boolean} isDragReject Some dragged files are rejected
+ * @property {boolean} isDragGlobal Files are dragged anywhere over the browser window, not only over the dropzone
+ * (only set with `trackGlobalDrag`)
+ * @property {DraggedItems} draggedItems The number and the MIME types of the items dragged over the dropzone
+ * @property {DragRejection[]} dragRejections The dragged items that would be rejected and why
+ * @property {boolean} isValidating Dropped files are waiting for an async validator
+ * @property {boolean} isHashing Digests of accepted files are being computed
+ * @property {boolean} isReadingFiles Dropped folders are being read
+ * @property {number} filesDiscovered Number of files found so far while reading dropped folders
  * @property {File[]} acceptedFiles Accepted files
  * @property {FileRejection[]} fileRejections Rejected files and why they were rejected
+ * @property {FilePreview[]} previews Object URLs of the accepted images and videos, if `previews` is enabled
  */
 
 /**
@@ -868,6 +2039,10 @@ export default Dropzone;
  * @property {Function} getRootProps Returns the props you should apply to the root drop container you render
  * @property {Function} getInputProps Returns the props you should apply to hidden file input you render
  * @property {Function} open Open the native file selection dialog
+ * @property {Function} removeFile Remove a file from the accepted files or the rejections
+ * @property {Function} replaceFile Replace an accepted file with another one, the new file is not validated
+ * @property {Function} clearFiles Remove all accepted files
+ * @property {Function} clearRejections Remove all rejections
  */
 
 const initialState = {
@@ -876,8 +2051,15 @@ const initialState = {
   isDragActive: false,
   isDragAccept: false,
   isDragReject: false,
+  draggedItems: { count: 0, types: [] },
+  dragRejections: [],
+  isValidating: false,
+  isHashing: false,
+  isReadingFiles: false,
+  filesDiscovered: 0,
   acceptedFiles: [],
   fileRejections: [],
+  previews: [],
 };
 
 /**
@@ -907,21 +2089,107 @@ const initialState = {
  * Keep in mind that mime type determination is not reliable across platforms. CSV files,
  * for example, are reported as text/plain under macOS but as application/vnd.ms-excel under
  * Windows. In some cases there might not be a mime type set at all (https://github.com/react-dropzone/react-dropzone/issues/276).
+ * Instead of a list of extensions, a type can have an `AcceptRule` with its own `extensions`, `minSize`, `maxSize`,
+ * `maxFiles` and `validator`, e.g. `{'image/*': {maxSize: 5 * 1024 * 1024}, 'video/*': {maxSize: 500 * 1024 * 1024}}`.
+ * A file follows the first rule it matches, and errors caused by a rule have the rule's key as `rule`.
  * @param {boolean} [props.multiple=true] Allow drag 'n' drop (or selection from the file dialog) of multiple files
+ * @param {boolean} [props.append=false] If true, dropped files are added to the accepted files and rejections
+ * instead of replacing them. `multiple` and `maxFiles` then apply to all accepted files, not only the dropped ones.
+ * @param {DeduplicateStrategy|false} [props.deduplicate=false] Detect files dropped more than once, by `path`,
+ * by name, size and last modified date (`metadata`) or by `content` hash. Files are compared within a drop
+ * and, in append mode, against the files already accepted.
+ * @param {'reject'|'ignore'} [props.duplicateAction='reject'] Reject duplicates with the `file-duplicate` error code
+ * or leave them out silently
+ * @param {HashAlgorithm|HashAlgorithm[]|false} [props.hash=false] Compute the `sha-256`, `sha-1` and/or `md5` digests
+ * of accepted files. Files are read in chunks of `hashChunkSize` bytes in the background and the digests are set
+ * as `hashes` on each file. Hashing stops when a file is removed from the accepted files.
+ * @param {number} [props.hashChunkSize=4194304] Number of bytes read at a time when hashing
+ * @param {Function} [props.onHashProgress] Cb for when a chunk of a file has been hashed
+ * @param {Function} [props.onHashComplete] Cb for when all digests of a file have been computed
+ * @param {boolean|PreviewOptions} [props.previews=false] Create object URLs for accepted images and videos,
+ * available as `previews`. The URLs are revoked when a file leaves the accepted files or the component unmounts.
+ * Pass `{thumbnail: {maxWidth, maxHeight}}` to preview images with a downscaled copy.
+ * @param {ImageTransformOptions|false} [props.transformImages=false] Downscale images of an accepted type to fit within
+ * `{maxWidth, maxHeight}` and re-encode them as `type` (image/jpeg by default) with the given `quality`.
+ * The processed file replaces the dropped one and keeps its path, with the extension changed to match the new type.
+ * Set `checkSizeAfterTransform` to check `minSize`/`maxSize` against the processed file.
+ * Transparent pixels are painted with `background` (white by default) when encoding as JPEG.
+ * The dimension constraints (`minWidth`, `maxWidth`, etc.) are checked against the processed image.
  * @param {boolean} [props.preventDropOnDocument=true] If false, allow dropped items to take over the current browser window
+ * @param {boolean} [props.trackGlobalDrag=false] If true, `isDragGlobal` tells when files are dragged anywhere over
+ * the browser window. The dropzone then re-renders when a drag enters or leaves the window.
  * @param {boolean} [props.noClick=false] If true, disables click to open the native file selection dialog
  * @param {boolean} [props.noKeyboard=false] If true, disables SPACE/ENTER to open the native file selection dialog.
  * Note that it also stops tracking the focus state.
  * @param {boolean} [props.noDrag=false] If true, disables drag 'n' drop
  * @param {boolean} [props.noDragEventsBubbling=false] If true, stops drag event propagation to parents
+ * @param {string} [props.zoneId] The id of the dropzone within its DropzoneProvider, generated if not set.
+ * Inside a provider, only the innermost zone under the pointer is drag active and receives dropped files,
+ * and `preventDropOnDocument` is set on the provider instead.
+ * @param {boolean} [props.noPaste=false] If true, disables pasting files from the clipboard
+ * @param {boolean} [props.pasteOnDocument=false] If true, files pasted anywhere in the document
+ * are handled too, unless they are pasted into an input, a textarea or a contenteditable element
  * @param {number} [props.minSize=0] Minimum file size (in bytes)
  * @param {number} [props.maxSize=Infinity] Maximum file size (in bytes)
+ * @param {number} [props.maxTotalSize=Infinity] Maximum size of all accepted files together (in bytes).
+ * If a drop exceeds it, all of its files are rejected. It is only enforced on drop, as browsers do not expose
+ * the size of the files during a drag.
+ * @param {number} [props.minWidth] Minimum image width (in pixels)
+ * @param {number} [props.maxWidth] Maximum image width (in pixels)
+ * @param {number} [props.minHeight] Minimum image height (in pixels)
+ * @param {number} [props.maxHeight] Maximum image height (in pixels)
+ * @param {number} [props.aspectRatio] Required image aspect ratio (width / height)
+ * @param {number} [props.aspectRatioTolerance=0.01] Allowed relative difference from `aspectRatio`
+ * Dimension constraints only apply to images. Their size is read from the file header when possible.
  * @param {boolean} [props.disabled=false] Enable/disable the dropzone
  * @param {getFilesFromEvent} [props.getFilesFromEvent] Use this to provide a custom file aggregator
+ * @param {boolean} [props.tree=false] If true, `onDrop` also receives the structure of the dropped folders
+ * (including empty ones) as a tree of directory and file nodes. The tree is the raw drop: it holds every dropped file
+ * as it was dropped, before type sniffing and image transforms, including the rejected and duplicate ones.
+ * A custom `getFilesFromEvent` must set the tree as the `tree` property of the list it returns.
+ * @param {number} [props.maxDepth=Infinity] How many levels of dropped folders are read, deeper folders are skipped
+ * @param {number} [props.maxEntries=Infinity] Stop reading dropped folders after this many files and folders.
+ * When a limit is reached, the files read so far are still dropped and `onError` is called.
+ * A drop that comes in while folders are still being read cancels the reading of the previous one.
+ * @param {Function} [props.onTraverseProgress] Cb for when more files were found while reading dropped folders,
+ * e.g. to show how many files were found so far. The count is also available as `filesDiscovered`.
+ * @param {string[]} [props.ignore=DEFAULT_IGNORE_PATTERNS] Gitignore-style patterns
+ * (e.g. `node_modules/`, `*.log`, `!keep.log`) for the files and folders to leave out of a drop,
+ * matched against the path of the files. Ignored folders are not read at all.
+ * The files picked in the file dialog are never left out.
+ * Spread `COMMON_IGNORE_PATTERNS` into it to also skip VCS folders, dotfiles, editor swap files, etc.
+ * @param {boolean} [props.useGitignore=false] If true, the .gitignore files in dropped folders are applied as well
+ * @param {MimeTypeMap} [props.mimeTypes] Extension to MIME type mappings for the files the browser does not know
+ * the type of (e.g. `{step: 'model/step', 'tar.zst': 'application/zstd'}`).
+ * They take precedence over the ones from `registerMimeTypes()` and the built-in ones.
+ * @param {boolean} [props.acceptUrls=false] If true, the links and images dragged from other pages are downloaded
+ * and go through the same validation as dropped files. The ones that cannot be downloaded are rejected
+ * with a `url-fetch-failed` error. At most `maxFiles` URLs are downloaded (1 if `multiple` is false),
+ * a few at a time, and the downloads over `maxSize` are stopped and rejected with a `url-fetch-failed` error.
+ * @param {UrlFetcher} [props.fetcher] Downloads a dropped URL, e.g. through a CORS proxy. Uses fetch() by default.
+ * It gets the URL, an AbortSignal and `maxSize`.
+ * @param {boolean|TextAsFileOptions} [props.textAsFile=false] If true, dropped or pasted text (text/markdown, text/plain
+ * or text/html) is turned into a file, e.g. `Meeting notes.txt`, which is validated like any other file.
+ * With `acceptUrls` too, a dragged selection of text is turned into text even if it holds images,
+ * while dragged links and images are downloaded.
+ * Pass `{types, name, type}` to change the payload types, the file name (a string or a function of the text
+ * and the file type) and the MIME type of the file (a string or a function of the payload type).
  * @param {Function} [props.onFileDialogCancel] Cb for when closing the file dialog with no selection
  * @param {boolean} [props.useFsAccessApi] Set to true to use the https://developer.mozilla.org/en-US/docs/Web/API/File_System_Access_API
  * to open the file picker instead of using an `<input type="file">` click event.
  * @param {boolean} autoFocus Set to true to auto focus the root element.
+ * @param {boolean} [props.sniffMimeType=false] Set to true to detect the type of dropped files from their contents.
+ * The detected type is set as `sniffedType` on each file and files whose contents do not match `accept`
+ * are rejected with the `file-type-mismatch` error code, even if their extension does.
+ * @param {boolean} [props.strictAccept=false] If true, the type and the extension of a file must match the same `accept`
+ * entry, e.g. a `.html` file reported as `image/png` is rejected with the `file-extension-mismatch` error code.
+ * Executables with a double extension (e.g. `report.pdf.exe`) are rejected with the `file-double-extension` error code.
+ * @param {ErrorMessages} [props.messages] Messages for the rejections, keyed by error code (including custom ones).
+ * A message is either a template such as `'Max {limit} per file, this one is {actual}'`, where the params are shown
+ * in human units and with friendly type names, or a function that gets the raw `params` and the file.
+ * Each `FileError` has these `params` (e.g. `{limit, actual}`) so messages can be translated.
+ * The messages of `dragRejections` are built for a file without a name, as only the type of dragged items is known.
+ * @param {string} [props.locale] Locale used to format the numbers and lists in `messages`
  * @param {Function} [props.onFileDialogOpen] Cb for when opening the file dialog
  * @param {dragCb} [props.onDragEnter] Cb for when the `dragenter` event occurs.
  * @param {dragCb} [props.onDragLeave] Cb for when the `dragleave` event occurs
@@ -953,6 +2221,11 @@ const initialState = {
  * @param {dropAcceptedCb} [props.onDropAccepted]
  * @param {dropRejectedCb} [props.onDropRejected]
  * @param {(error: Error) => void} [props.onError]
+ * @param {Function} [props.validator] Custom validation function.
+ * It may return a Promise, in which case `onDrop` is invoked once all files are validated
+ * and `isValidating` is true in the meantime. Results of a drop are discarded if a newer drop comes in.
+ * During a drag, it is called with the dragged `DataTransferItem`s and only its synchronous results
+ * are taken into account for `isDragAccept`/`isDragReject`.
  *
  * @returns {DropzoneState & DropzoneMethods}
  */
@@ -962,7 +2235,14 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
     disabled,
     getFilesFromEvent,
     maxSize,
+    maxTotalSize,
     minSize,
+    minWidth,
+    maxWidth,
+    minHeight,
+    maxHeight,
+    aspectRatio,
+    aspectRatioTolerance,
     multiple,
     maxFiles,
     onDragEnter,
@@ -976,17 +2256,48 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
     useFsAccessApi,
     autoFocus,
     preventDropOnDocument,
+    trackGlobalDrag,
     noClick,
     noKeyboard,
     noDrag,
     noDragEventsBubbling,
+    noPaste,
+    pasteOnDocument,
+    append,
+    deduplicate,
+    duplicateAction,
+    hash,
+    hashChunkSize,
+    onHashProgress,
+    onHashComplete,
+    previews,
+    transformImages,
+    tree,
+    maxDepth,
+    maxEntries,
+    onTraverseProgress,
+    ignore,
+    useGitignore,
+    mimeTypes,
+    acceptUrls,
+    fetcher,
+    textAsFile,
+    zoneId: zoneIdProp,
     onError,
     validator,
+    sniffMimeType,
+    strictAccept,
+    messages,
+    locale,
   } = {
     ...defaultProps,
     ...props,
   };
 
+  const dropzoneContext = useContext(DropzoneContext);
+  const generatedZoneId = useId();
+  const zoneId = zoneIdProp || generatedZoneId;
+
   const acceptAttr = useMemo(() => acceptPropAsAcceptAttr(accept!), [accept]);
   const pickerTypes = useMemo(() => pickerOptionsFromAccept(accept), [accept]);
 
@@ -1010,6 +2321,10 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
   const [state, dispatch] = useReducer(reducer, initialState);
   const { isFocused, isFileDialogActive } = state;
 
+  // The accepted files new drops are added to in append mode
+  const acceptedFilesRef = useRef<any[]>(state.acceptedFiles);
+  acceptedFilesRef.current = state.acceptedFiles;
+
   const fsAccessApiWorksRef = useRef(
     typeof window !== 'undefined' &&
       window.isSecureContext &&
@@ -1041,7 +2356,10 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
   }, [inputRef, isFileDialogActive, onFileDialogCancelCb, fsAccessApiWorksRef]);
 
   const dragTargetsRef = useRef<any[]>([]);
-  const onDocumentDrop = (event: any) => {
+  // Incremented for every drag event that changes the drag state, so that the files of an older dragenter
+  // that are read after the drag left or was dropped do not reactivate the dropzone
+  const dragIdRef = useRef(0);
+  const onDocumentDrop = (event: DragEvent) => {
     if (rootRef.current && rootRef.current.contains(event.target)) {
       // If we intercepted an event for our instance, let it propagate down to the instance's onDrop handler
       return;
@@ -1050,19 +2368,40 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
     dragTargetsRef.current = [];
   };
 
+  // The provider listens on the document once for all of its zones
+  const listenOnDocument = preventDropOnDocument && !dropzoneContext;
   useEffect(() => {
-    if (preventDropOnDocument) {
-      document.addEventListener('dragover', onDocumentDragOver, false);
-      document.addEventListener('drop', onDocumentDrop, false);
+    if (!listenOnDocument) {
+      return undefined;
     }
-
-    return () => {
-      if (preventDropOnDocument) {
-        document.removeEventListener('dragover', onDocumentDragOver);
-        document.removeEventListener('drop', onDocumentDrop);
+    // Shared with the other dropzones and the tracking of isDragGlobal
+    return addDocumentDragListener((event) => {
+      if (event.type === 'dragover') {
+        onDocumentDragOver(event);
+      } else if (event.type === 'drop') {
+        onDocumentDrop(event);
       }
-    };
-  }, [rootRef, preventDropOnDocument]);
+    });
+  }, [rootRef, listenOnDocument]);
+
+  const registerZone = dropzoneContext && dropzoneContext.register;
+  useEffect(() => {
+    if (!registerZone || disabled || noDrag) {
+      return undefined;
+    }
+    return registerZone({
+      id: zoneId,
+      rootRef,
+      onDocumentDrop: () => {
+        dragTargetsRef.current = [];
+      },
+    });
+  }, [registerZone, zoneId, rootRef, disabled, noDrag]);
+
+  // Inside a provider, the zones a drag only passes through on its way to a nested zone are not active
+  const isDragTarget = !dropzoneContext || dropzoneContext.hoveredZoneId === zoneId;
+
+  const isDragGlobal = useGlobalFileDrag(!!trackGlobalDrag);
 
   // Auto focus the root when autoFocus is true
   useEffect(() => {
@@ -1093,31 +2432,47 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
 
       dragTargetsRef.current = [...dragTargetsRef.current, event.target];
 
-      if (isEvtWithFiles(event)) {
-        Promise.resolve(getFilesFromEvent(event))
+      if (isEvtWithFiles(event, { acceptUrls, textAsFile })) {
+        const dragId = ++dragIdRef.current;
+        // Links and text are only items once the options say what they are turned into
+        Promise.resolve(getFilesFromEvent(event, { acceptUrls, textAsFile, accept: acceptAttr }))
           .then((files) => {
+            if (dragId !== dragIdRef.current) {
+              return;
+            }
             if (isPropagationStopped(event) && !noDragEventsBubbling) {
               return;
             }
 
+            const validationResults = validateDraggedItems(files, validator);
             const fileCount = files.length;
-            const isDragAccept =
-              fileCount > 0 &&
-              allFilesAccepted({
-                files,
-                accept: acceptAttr,
-                minSize,
-                maxSize,
-                multiple,
-                maxFiles,
-                validator,
-              });
+            let dragRejections = getDragRejections({
+              files,
+              accept,
+              minSize,
+              maxSize,
+              multiple,
+              maxFiles,
+              validationResults,
+              existingFiles: append ? acceptedFilesRef.current : [],
+            });
+            if (messages) {
+              dragRejections = dragRejections.map(({ item, errors }) => ({
+                item,
+                errors: errors.map((error) =>
+                  formatFileError(error, draggedItemAsFile(item), messages, locale),
+                ),
+              }));
+            }
+            const isDragAccept = fileCount > 0 && dragRejections.length === 0;
             const isDragReject = fileCount > 0 && !isDragAccept;
 
             dispatch({
               isDragAccept,
               isDragReject,
               isDragActive: true,
+              draggedItems: getDraggedItems(files),
+              dragRejections,
               type: 'setDraggedFiles',
             });
 
@@ -1133,12 +2488,18 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
       onDragEnter,
       onErrCb,
       noDragEventsBubbling,
-      acceptAttr,
+      accept,
       minSize,
       maxSize,
       multiple,
       maxFiles,
       validator,
+      messages,
+      locale,
+      append,
+      acceptUrls,
+      textAsFile,
+      acceptAttr,
     ],
   );
 
@@ -1148,7 +2509,7 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
       event.persist();
       stopPropagation(event);
 
-      const hasFiles = isEvtWithFiles(event);
+      const hasFiles = isEvtWithFiles(event, { acceptUrls, textAsFile });
       if (hasFiles && event.dataTransfer) {
         try {
           event.dataTransfer.dropEffect = 'copy';
@@ -1161,7 +2522,7 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
 
       return false;
     },
-    [onDragOver, noDragEventsBubbling],
+    [onDragOver, noDragEventsBubbling, acceptUrls, textAsFile],
   );
 
   const onDragLeaveCb = useCallback(
@@ -1185,34 +2546,132 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
         return;
       }
 
+      dragIdRef.current++;
       dispatch({
         type: 'setDraggedFiles',
         isDragActive: false,
         isDragAccept: false,
         isDragReject: false,
+        draggedItems: initialState.draggedItems,
+        dragRejections: initialState.dragRejections,
       });
 
-      if (isEvtWithFiles(event) && onDragLeave) {
+      if (isEvtWithFiles(event, { acceptUrls, textAsFile }) && onDragLeave) {
         onDragLeave(event);
       }
     },
-    [rootRef, onDragLeave, noDragEventsBubbling],
+    [rootRef, onDragLeave, noDragEventsBubbling, acceptUrls, textAsFile],
   );
 
+  // Incremented for every batch of files so that async validation results of an older drop are discarded
+  const validationIdRef = useRef(0);
+
   const setFiles = useCallback(
-    (files: any[], event: any) => {
-      const acceptedFiles: any[] = [];
-      const fileRejections: any[] = [];
+    async (files: any[], event: any) => {
+      const validationId = ++validationIdRef.current;
+      const { tree: fileTree } = files as FilesWithTree;
 
-      files.forEach((file) => {
-        const [accepted, acceptError] = fileAccepted(file, acceptAttr);
-        const [sizeMatch, sizeError] = fileMatchSize(file, minSize, maxSize);
-        const customErrors = validator ? validator(file) : null;
+      if (validator || hasRuleValidators(accept)) {
+        dispatch({ type: 'setValidating', isValidating: true });
+      }
+
+      const existingFiles = append ? acceptedFilesRef.current : [];
+      // The dropped URLs that could not be downloaded are rejected without being validated
+      const failedDownloads = files.filter((file) => file.fetchError);
+      files = files.filter((file) => !file.fetchError);
+
+      let validationResults: any[];
+      let ruleValidationResults: any[];
+      const dimensionConstraints = {
+        minWidth,
+        maxWidth,
+        minHeight,
+        maxHeight,
+        aspectRatio,
+        aspectRatioTolerance,
+      };
+      let dimensions: (ImageDimensions | undefined)[] = [];
+      // The images before they were transformed, whose size is checked unless checkSizeAfterTransform is set
+      let untransformedFiles: any[] | undefined;
+      try {
+        if (sniffMimeType) {
+          files = await Promise.all(files.map(withSniffedType));
+        }
+        if (transformImages) {
+          // One at a time, as every image is decoded to a full size bitmap
+          const transformed: any[] = [];
+          for (const file of files) {
+            transformed.push(
+              await transformAcceptedImage(file, transformImages, acceptAttr, minSize, maxSize, accept),
+            );
+          }
+          if (!transformImages.checkSizeAfterTransform) {
+            untransformedFiles = files;
+          }
+          files = transformed;
+        }
+        validationResults = await validateFiles(files, validator);
+        ruleValidationResults = await validateAcceptRules(files, accept);
+        if (hasDimensionConstraints(dimensionConstraints)) {
+          dimensions = await Promise.all(
+            files.map((file) => (isImage(file) ? readImageDimensions(file) : undefined)),
+          );
+        }
+      } catch (e) {
+        if (validationId === validationIdRef.current) {
+          dispatch({ type: 'setValidating', isValidating: false });
+          onErrCb(e);
+        }
+        return;
+      }
+
+      if (validationId !== validationIdRef.current) {
+        // A newer drop came in while validating
+        return;
+      }
 
-        if (accepted && sizeMatch && !customErrors) {
-          acceptedFiles.push(file);
+      const acceptedFiles: any[] = [];
+      const fileRejections: any[] = failedDownloads.map((file) => ({
+        file,
+        errors: [getUrlFetchFailedRejectionErr(file.url, file.fetchError.message)],
+      }));
+      // The files that passed all checks, before they are deduplicated
+      const candidates: any[] = [];
+
+      files.forEach((file, i) => {
+        const [accepted, acceptError] = fileAccepted(file, acceptAttr);
+        const [contentMatch, contentError] = fileContentAccepted(file, acceptAttr);
+        const [strictMatch, strictError] = strictAccept
+          ? fileStrictlyAccepted(file, accept, mimeTypes)
+          : [true, null];
+        const [sizeMatch, sizeError] = fileMatchSize(
+          untransformedFiles ? untransformedFiles[i] : file,
+          minSize,
+          maxSize,
+          accept,
+        );
+        const [dimensionsMatch, dimensionErrors] = fileMatchDimensions(
+          file,
+          dimensions[i],
+          dimensionConstraints,
+        );
+        const customErrors = mergeValidationResults(
+          validationResults[i],
+          ruleValidationResults[i],
+          findAcceptRule(file, accept),
+        );
+
+        if (
+          accepted &&
+          contentMatch &&
+          strictMatch &&
+          sizeMatch &&
+          dimensionsMatch &&
+          !customErrors
+        ) {
+          candidates.push(file);
         } else {
-          let errors = [acceptError, sizeError];
+          let errors = [acceptError, contentError, strictError, sizeError, ...dimensionErrors];
 
           if (customErrors) {
             errors = errors.concat(customErrors);
@@ -1222,25 +2681,89 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
         }
       });
 
-      if (
-        (!multiple && acceptedFiles.length > 1) ||
-        (multiple && maxFiles >= 1 && acceptedFiles.length > maxFiles)
-      ) {
+      if (deduplicate) {
+        let duplicateKeys: (string | undefined)[];
+        let existingKeys: (string | undefined)[];
+        try {
+          // Only the candidates are hashed. The accepted files were hashed when they were dropped,
+          // so their keys come from the cache of getDuplicateKey()
+          [duplicateKeys, existingKeys] = await Promise.all([
+            Promise.all(candidates.map((file) => getDuplicateKey(file, deduplicate))),
+            Promise.all(existingFiles.map((file) => getDuplicateKey(file, deduplicate))),
+          ]);
+        } catch (e) {
+          if (validationId === validationIdRef.current) {
+            dispatch({ type: 'setValidating', isValidating: false });
+            onErrCb(e);
+          }
+          return;
+        }
+
+        if (validationId !== validationIdRef.current) {
+          return;
+        }
+
+        const seenKeys = new Set(existingKeys);
+        candidates.forEach((file, i) => {
+          if (!seenKeys.has(duplicateKeys[i])) {
+            seenKeys.add(duplicateKeys[i]);
+            acceptedFiles.push(file);
+          } else if (duplicateAction === 'reject') {
+            fileRejections.push({ file, errors: [FILE_DUPLICATE_REJECTION] });
+          }
+        });
+      } else {
+        acceptedFiles.push(...candidates);
+      }
+
+      const overRuleLimits = filesOverRuleLimits(acceptedFiles, existingFiles, accept);
+      if (overRuleLimits.size > 0) {
+        overRuleLimits.forEach((error, file) => {
+          fileRejections.push({ file, errors: [error] });
+        });
+        acceptedFiles.splice(
+          0,
+          acceptedFiles.length,
+          ...acceptedFiles.filter((file) => !overRuleLimits.has(file)),
+        );
+      }
+
+      const count = existingFiles.length + acceptedFiles.length;
+      if (tooManyFiles(count, multiple, maxFiles)) {
         // Reject everything and empty accepted files
+        const error = getTooManyFilesRejectionErr(multiple ? maxFiles : 1, count);
+        acceptedFiles.forEach((file) => {
+          fileRejections.push({ file, errors: [error] });
+        });
+        acceptedFiles.splice(0);
+      } else if (totalSizeTooLarge([...existingFiles, ...acceptedFiles], maxTotalSize)) {
+        const error = getTotalSizeTooLargeRejectionErr(
+          maxTotalSize,
+          totalSize([...existingFiles, ...acceptedFiles]),
+        );
         acceptedFiles.forEach((file) => {
-          fileRejections.push({ file, errors: [TOO_MANY_FILES_REJECTION] });
+          fileRejections.push({ file, errors: [error] });
         });
         acceptedFiles.splice(0);
       }
 
+      if (messages) {
+        fileRejections.forEach((rejection) => {
+          rejection.errors = rejection.errors.map((error: FileError) =>
+            formatFileError(error, rejection.file, messages, locale),
+          );
+        });
+      }
+
       dispatch({
         acceptedFiles,
         fileRejections,
+        append,
         type: 'setFiles',
       });
 
       if (onDrop) {
-        onDrop(acceptedFiles, fileRejections, event);
+        onDrop(acceptedFiles, fileRejections, event, fileTree);
       }
 
       if (fileRejections.length > 0 && onDropRejected) {
@@ -1257,14 +2780,140 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
       acceptAttr,
       minSize,
       maxSize,
+      minWidth,
+      maxWidth,
+      minHeight,
+      maxHeight,
+      aspectRatio,
+      aspectRatioTolerance,
       maxFiles,
+      maxTotalSize,
       onDrop,
       onDropAccepted,
       onDropRejected,
+      onErrCb,
       validator,
+      sniffMimeType,
+      strictAccept,
+      accept,
+      mimeTypes,
+      messages,
+      locale,
+      transformImages,
+      append,
+      deduplicate,
+      duplicateAction,
+    ],
+  );
+
+  // The folder traversal in progress, which is aborted when files are dropped again
+  const traversalRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      if (traversalRef.current) {
+        traversalRef.current.abort();
+      }
+    },
+    [],
+  );
+
+  const readFiles = useCallback(
+    (event: any) => {
+      if (traversalRef.current) {
+        traversalRef.current.abort();
+      }
+      const controller = new AbortController();
+      traversalRef.current = controller;
+      dispatch({ type: 'setReadingFiles', isReadingFiles: true, filesDiscovered: 0 });
+
+      const onProgress = (progress: TraverseProgress) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        dispatch({
+          type: 'setReadingFiles',
+          isReadingFiles: true,
+          filesDiscovered: progress.filesDiscovered,
+        });
+        if (onTraverseProgress) {
+          onTraverseProgress(progress);
+        }
+      };
+      return Promise.resolve(
+        getFilesFromEvent(event, {
+          tree,
+          maxDepth,
+          maxEntries,
+          ignore,
+          useGitignore,
+          mimeTypes,
+          acceptUrls,
+          fetcher,
+          maxUrls: multiple ? maxFiles || undefined : 1,
+          maxDownloadSize: maxSize,
+          textAsFile,
+          accept: acceptAttr,
+          signal: controller.signal,
+          onProgress,
+        }),
+      )
+        .finally(() => {
+          // A newer drop has taken over the reading state if this one was aborted
+          if (traversalRef.current === controller) {
+            traversalRef.current = null;
+            dispatch({ type: 'setReadingFiles', isReadingFiles: false, filesDiscovered: 0 });
+          }
+        })
+        .then((files) => {
+          if ((files as FilesWithTree).truncated) {
+            const limits = [
+              isFinite(maxDepth) ? `maxDepth (${maxDepth})` : '',
+              isFinite(maxEntries) ? `maxEntries (${maxEntries})` : '',
+            ].filter(Boolean);
+            onErrCb(
+              new Error(
+                `Not all dropped files were read because the folders exceed ${limits.join(' or ')}`,
+              ),
+            );
+          }
+          return files;
+        });
+    },
+    [
+      getFilesFromEvent,
+      onErrCb,
+      onTraverseProgress,
+      tree,
+      maxDepth,
+      maxEntries,
+      ignore,
+      useGitignore,
+      mimeTypes,
+      acceptUrls,
+      fetcher,
+      multiple,
+      maxFiles,
+      maxSize,
+      textAsFile,
+      acceptAttr,
     ],
   );
 
+  // A traversal that was cancelled by a newer drop is not an error
+  const onReadErr = useCallback(
+    (e: any) => {
+      if (!isAbort(e)) {
+        onErrCb(e);
+      }
+    },
+    [onErrCb],
+  );
+
+  // Incremented for every drop or paste, so that the files of an older one that are still being read
+  // are not set after the newer one
+  const dropIdRef = useRef(0);
+
   const onDropCb = useCallback(
     (event: any) => {
       event.preventDefault();
@@ -1273,28 +2922,263 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
       stopPropagation(event);
 
       dragTargetsRef.current = [];
+      dragIdRef.current++;
+
+      // Files dropped on a nested zone belong to that zone, so only the drag state is cleared here
+      if (event.type === 'drop' && dropzoneContext && dropzoneContext.getTargetZone(event.target) !== zoneId) {
+        dispatch({
+          type: 'setDraggedFiles',
+          isDragActive: false,
+          isDragAccept: false,
+          isDragReject: false,
+          draggedItems: initialState.draggedItems,
+          dragRejections: initialState.dragRejections,
+        });
+        return;
+      }
 
-      if (isEvtWithFiles(event)) {
-        Promise.resolve(getFilesFromEvent(event))
+      const dropId = ++dropIdRef.current;
+      dispatch({ type: 'reset', append });
+
+      if (isEvtWithFiles(event, { acceptUrls, textAsFile })) {
+        readFiles(event)
           .then((files) => {
+            if (dropId !== dropIdRef.current) {
+              return;
+            }
             if (isPropagationStopped(event) && !noDragEventsBubbling) {
               return;
             }
+            // Links or text that did not turn into any file are not a drop
+            if (files.length === 0 && !isEvtWithFiles(event)) {
+              return;
+            }
             setFiles(files, event);
           })
-          .catch((e) => onErrCb(e));
+          .catch(onReadErr);
+      }
+    },
+    [
+      readFiles,
+      setFiles,
+      onReadErr,
+      noDragEventsBubbling,
+      append,
+      dropzoneContext,
+      zoneId,
+      acceptUrls,
+      textAsFile,
+    ],
+  );
+
+  // The abort controllers of the files being hashed
+  const hashingRef = useRef(new Map<FileWithPath, AbortController>());
+  const hashCallbacksRef = useRef({ onHashProgress, onHashComplete, onErrCb });
+  hashCallbacksRef.current = { onHashProgress, onHashComplete, onErrCb };
+
+  // Hash new accepted files and stop hashing the ones that left the list
+  useEffect(() => {
+    const hashing = hashingRef.current;
+    const { acceptedFiles } = state;
+
+    hashing.forEach((controller, file) => {
+      if (acceptedFiles.indexOf(file) === -1) {
+        controller.abort();
+        hashing.delete(file);
+      }
+    });
+
+    if (hash) {
+      const algorithms = Array.isArray(hash) ? hash : [hash];
+      acceptedFiles
+        .filter((file: FileWithPath) => !file.hashes && !hashing.has(file))
+        .forEach((file: FileWithPath) => {
+          const controller = new AbortController();
+          hashing.set(file, controller);
+
+          hashFile(file, {
+            algorithms,
+            chunkSize: hashChunkSize,
+            signal: controller.signal,
+            onProgress: (progress) => {
+              const { onHashProgress } = hashCallbacksRef.current;
+              if (onHashProgress) {
+                onHashProgress(file, progress);
+              }
+            },
+          })
+            .then((hashes) => {
+              Object.defineProperty(file, 'hashes', {
+                value: hashes,
+                writable: false,
+                configurable: false,
+                enumerable: true,
+              });
+              const { onHashComplete } = hashCallbacksRef.current;
+              if (onHashComplete) {
+                onHashComplete(file, hashes);
+              }
+            })
+            .catch((e) => {
+              if (!isAbort(e)) {
+                hashCallbacksRef.current.onErrCb(e);
+              }
+            })
+            .finally(() => {
+              if (hashing.get(file) === controller) {
+                hashing.delete(file);
+                dispatch({ type: 'setHashing', isHashing: hashing.size > 0 });
+              }
+            });
+        });
+    }
+
+    dispatch({ type: 'setHashing', isHashing: hashing.size > 0 });
+  }, [state.acceptedFiles, hash, hashChunkSize]);
+
+  // Stop hashing when the component unmounts
+  useEffect(() => {
+    const hashing = hashingRef.current;
+    return () => {
+      hashing.forEach((controller) => controller.abort());
+      hashing.clear();
+    };
+  }, []);
+
+  // The object URLs of the previewed files, null while a thumbnail is rendered
+  const previewsRef = useRef(new Map<File, string | null>());
+  const thumbnail = isObject<PreviewOptions>(previews) ? previews.thumbnail : undefined;
+
+  // Create previews for new accepted files and revoke the ones of files that left the list
+  useEffect(() => {
+    const urls = previewsRef.current;
+    const { acceptedFiles } = state;
+
+    const update = () => {
+      dispatch({
+        type: 'setPreviews',
+        previews: acceptedFiles
+          .filter((file: File) => urls.get(file))
+          .map((file: File) => ({ file, url: urls.get(file) })),
+      });
+    };
+
+    urls.forEach((url, file) => {
+      if (acceptedFiles.indexOf(file) === -1) {
+        if (url) {
+          URL.revokeObjectURL(url);
+        }
+        urls.delete(file);
+      }
+    });
+
+    if (previews) {
+      acceptedFiles
+        .filter((file: File) => /^(image|video)\//.test(file.type) && !urls.has(file))
+        .forEach((file: File) => {
+          if (!thumbnail || !file.type.startsWith('image/')) {
+            urls.set(file, URL.createObjectURL(file));
+            return;
+          }
+
+          urls.set(file, null);
+          createThumbnail(file, thumbnail)
+            // Fall back to the whole file if the browser cannot render it (e.g. some HEIC images)
+            .catch(() => file)
+            .then((blob) => {
+              const url = URL.createObjectURL(blob);
+              if (urls.has(file) && urls.get(file) === null) {
+                urls.set(file, url);
+                update();
+              } else {
+                // The file was removed in the meantime
+                URL.revokeObjectURL(url);
+              }
+            });
+        });
+    }
+
+    update();
+  }, [state.acceptedFiles, previews]);
+
+  // Revoke all previews when the component unmounts
+  useEffect(() => {
+    const urls = previewsRef.current;
+    return () => {
+      urls.forEach((url) => {
+        if (url) {
+          URL.revokeObjectURL(url);
+        }
+      });
+      urls.clear();
+    };
+  }, []);
+
+  const removeFile = useCallback((file: File) => {
+    dispatch({ type: 'removeFile', file });
+  }, []);
+
+  const replaceFile = useCallback((file: File, newFile: File) => {
+    dispatch({ type: 'replaceFile', file, newFile });
+  }, []);
+
+  const clearFiles = useCallback(() => {
+    dispatch({ type: 'clearFiles' });
+  }, []);
+
+  const clearRejections = useCallback(() => {
+    dispatch({ type: 'clearRejections' });
+  }, []);
+
+  const onPasteCb = useCallback(
+    (event: any) => {
+      // Let text, etc. be pasted as usual, also into the inputs and editable elements of the root
+      if (isEditableTarget(event.target) || !isEvtWithFiles(event, { acceptUrls, textAsFile })) {
+        return;
       }
-      dispatch({ type: 'reset' });
+      event.preventDefault();
+      if (typeof event.persist === 'function') {
+        event.persist();
+      }
+
+      const dropId = ++dropIdRef.current;
+      readFiles(event)
+        .then((files) => {
+          if (dropId === dropIdRef.current) {
+            setFiles(files, event);
+          }
+        })
+        .catch(onReadErr);
     },
-    [getFilesFromEvent, setFiles, onErrCb, noDragEventsBubbling],
+    [readFiles, setFiles, onReadErr, acceptUrls, textAsFile],
   );
 
+  // Handle files pasted anywhere in the document
+  useEffect(() => {
+    if (disabled || noPaste || !pasteOnDocument) {
+      return;
+    }
+
+    const onDocumentPaste = (event: ClipboardEvent) => {
+      // Already handled, e.g. by the onPaste handler of the root
+      if (event.defaultPrevented || isEditableTarget(event.target)) {
+        return;
+      }
+      onPasteCb(event);
+    };
+
+    document.addEventListener('paste', onDocumentPaste, false);
+    return () => {
+      document.removeEventListener('paste', onDocumentPaste, false);
+    };
+  }, [disabled, noPaste, pasteOnDocument, onPasteCb]);
+
   // Fn for opening the file dialog programmatically
   const openFileDialog = useCallback(() => {
     // No point to use FS access APIs if context is not secure
     // https://developer.mozilla.org/en-US/docs/Web/Security/Secure_Contexts#feature_detection
     if (fsAccessApiWorksRef.current) {
-      dispatch({ type: 'openDialog' });
+      dispatch({ type: 'openDialog', append });
       onFileDialogOpenCb();
       // https://developer.mozilla.org/en-US/docs/Web/API/window/showOpenFilePicker
       const opts = {
@@ -1303,7 +3187,7 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
       };
       (window as any)
         .showOpenFilePicker(opts)
-        .then((handles: any) => getFilesFromEvent(handles))
+        .then((handles: any) => getFilesFromEvent(handles, { tree, ignore, useGitignore, mimeTypes }))
         .then((files: any[]) => {
           setFiles(files, null);
           dispatch({ type: 'closeDialog' });
@@ -1335,7 +3219,7 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
     }
 
     if (inputRef.current) {
-      dispatch({ type: 'openDialog' });
+      dispatch({ type: 'openDialog', append });
       onFileDialogOpenCb();
       inputRef.current.value = null;
       inputRef.current.click();
@@ -1349,6 +3233,11 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
     onErrCb,
     pickerTypes,
     multiple,
+    append,
+    tree,
+    ignore,
+    useGitignore,
+    mimeTypes,
   ]);
 
   // Cb to open the file dialog when SPACE/ENTER occurs on the dropzone
@@ -1408,6 +3297,10 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
     return noDrag ? null : composeHandler(fn);
   };
 
+  const composePasteHandler = (fn: any) => {
+    return noPaste ? null : composeHandler(fn);
+  };
+
   const stopPropagation = (event: any) => {
     if (noDragEventsBubbling) {
       event.stopPropagation();
@@ -1427,6 +3320,7 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
         onDragOver,
         onDragLeave,
         onDrop,
+        onPaste,
         ...rest
       }: DropzoneRootProps = {}) => ({
         onKeyDown: composeKeyboardHandler(composeEventHandlers(onKeyDown, onKeyDownCb)),
@@ -1437,6 +3331,7 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
         onDragOver: composeDragHandler(composeEventHandlers(onDragOver, onDragOverCb)),
         onDragLeave: composeDragHandler(composeEventHandlers(onDragLeave, onDragLeaveCb)),
         onDrop: composeDragHandler(composeEventHandlers(onDrop, onDropCb)),
+        onPaste: composePasteHandler(composeEventHandlers(onPaste, onPasteCb)),
         role: typeof role === 'string' && role !== '' ? role : 'presentation',
         [refKey]: rootRef,
         ...(!disabled && !noKeyboard ? { tabIndex: 0 } : {}),
@@ -1452,8 +3347,10 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
       onDragOverCb,
       onDragLeaveCb,
       onDropCb,
+      onPasteCb,
       noKeyboard,
       noDrag,
+      noPaste,
       disabled,
     ],
   );
@@ -1486,12 +3383,21 @@ export function useDropzone(props: DropzoneOptions = {}): DropzoneState {
 
   return {
     ...state,
+    zoneId,
+    isDragActive: state.isDragActive && isDragTarget,
+    isDragAccept: state.isDragAccept && isDragTarget,
+    isDragReject: state.isDragReject && isDragTarget,
+    isDragGlobal: isDragGlobal && !disabled && !noDrag,
     isFocused: isFocused && !disabled,
     getRootProps,
     getInputProps,
     rootRef,
     inputRef,
     open: composeHandler(openFileDialog),
+    removeFile,
+    replaceFile,
+    clearFiles,
+    clearRejections,
   };
 }
 
@@ -1516,6 +3422,7 @@ function reducer(state: any, action: any) {
     case 'openDialog':
       return {
         ...initialState,
+        ...keptFiles(state, action),
         isFileDialogActive: true,
       };
     case 'closeDialog':
@@ -1529,20 +3436,96 @@ function reducer(state: any, action: any) {
         isDragActive: action.isDragActive,
         isDragAccept: action.isDragAccept,
         isDragReject: action.isDragReject,
+        draggedItems: action.draggedItems,
+        dragRejections: action.dragRejections,
+      };
+    case 'setValidating':
+      return {
+        ...state,
+        isValidating: action.isValidating,
+      };
+    case 'setPreviews':
+      return samePreviews(state.previews, action.previews)
+        ? state
+        : {
+            ...state,
+            previews: action.previews,
+          };
+    case 'setReadingFiles':
+      return {
+        ...state,
+        isReadingFiles: action.isReadingFiles,
+        filesDiscovered: action.filesDiscovered,
       };
+    case 'setHashing':
+      return state.isHashing === action.isHashing
+        ? state
+        : {
+            ...state,
+            isHashing: action.isHashing,
+          };
     case 'setFiles':
       return {
         ...state,
-        acceptedFiles: action.acceptedFiles,
-        fileRejections: action.fileRejections,
+        isValidating: false,
+        acceptedFiles: action.append
+          ? [...state.acceptedFiles, ...action.acceptedFiles]
+          : action.acceptedFiles,
+        fileRejections: action.append
+          ? [...state.fileRejections, ...action.fileRejections]
+          : action.fileRejections,
+      };
+    case 'removeFile':
+      return {
+        ...state,
+        acceptedFiles: state.acceptedFiles.filter((file: File) => file !== action.file),
+        fileRejections: state.fileRejections.filter(
+          (rejection: FileRejection) => rejection.file !== action.file,
+        ),
+      };
+    case 'replaceFile':
+      return {
+        ...state,
+        acceptedFiles: state.acceptedFiles.map((file: File) =>
+          file === action.file ? action.newFile : file,
+        ),
+      };
+    case 'clearFiles':
+      return {
+        ...state,
+        acceptedFiles: [],
+      };
+    case 'clearRejections':
+      return {
+        ...state,
+        fileRejections: [],
       };
     case 'reset':
       return {
         ...initialState,
+        ...keptFiles(state, action),
       };
     default:
       return state;
   }
 }
 
+function samePreviews(a: FilePreview[], b: FilePreview[]) {
+  return (
+    a.length === b.length && a.every((preview, i) => preview.file === b[i].file && preview.url === b[i].url)
+  );
+}
+
+// In append mode the files stay when a new drop or file dialog starts
+function keptFiles(state: any, action: any) {
+  return action.append
+    ? {
+        acceptedFiles: state.acceptedFiles,
+        fileRejections: state.fileRejections,
+        isHashing: state.isHashing,
+        previews: state.previews,
+      }
+    : {};
+}
+
 function noop(e?: any) {}
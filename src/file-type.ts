@@ -0,0 +1,234 @@
+/**
+ * Number of bytes read from the start of a file to detect its type.
+ * The TAR signature is the furthest one away, at offset 257.
+ */
+const SNIFF_LENGTH = 512;
+
+// Container formats whose actual type depends on what is inside,
+// e.g. a .docx file is a ZIP archive and a .msg file is an OLE compound file
+const ZIP_BASED_TYPES = new Map([
+  ['docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  ['xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  ['pptx', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  ['odt', 'application/vnd.oasis.opendocument.text'],
+  ['ods', 'application/vnd.oasis.opendocument.spreadsheet'],
+  ['odp', 'application/vnd.oasis.opendocument.presentation'],
+  ['epub', 'application/epub+zip'],
+  ['jar', 'application/java-archive'],
+]);
+
+const OLE_BASED_TYPES = new Map([
+  ['doc', 'application/msword'],
+  ['xls', 'application/vnd.ms-excel'],
+  ['ppt', 'application/vnd.ms-powerpoint'],
+  ['msg', 'application/vnd.ms-outlook'],
+  ['vsd', 'application/vnd.visio'],
+]);
+
+// The brands of ISO base media files, see https://mp4ra.org/registered-types/brands
+const ISO_BRANDS = new Map([
+  ['avif', 'image/avif'],
+  ['avis', 'image/avif'],
+  ['heic', 'image/heic'],
+  ['heix', 'image/heic'],
+  ['mif1', 'image/heif'],
+  ['msf1', 'image/heif'],
+  ['qt  ', 'video/quicktime'],
+  ['M4A ', 'audio/mp4'],
+  ['M4B ', 'audio/mp4'],
+  ['M4P ', 'audio/mp4'],
+  ['M4V ', 'video/mp4'],
+  ['isom', 'video/mp4'],
+  ['iso2', 'video/mp4'],
+  ['mp41', 'video/mp4'],
+  ['mp42', 'video/mp4'],
+  ['avc1', 'video/mp4'],
+  ['dash', 'video/mp4'],
+  ['3gp4', 'video/3gpp'],
+  ['3gp5', 'video/3gpp'],
+  ['3gp6', 'video/3gpp'],
+  ['3g2a', 'video/3gpp2'],
+]);
+
+// Other names of the detected types, which browsers and operating systems report instead,
+// e.g. Windows reports .zip files as application/x-zip-compressed
+const MIME_TYPE_ALIASES = new Map([
+  ['application/zip', ['application/x-zip-compressed', 'application/x-zip']],
+  ['application/gzip', ['application/x-gzip']],
+  ['application/vnd.rar', ['application/x-rar-compressed', 'application/x-rar']],
+  ['application/rtf', ['text/rtf']],
+  ['application/x-msdownload', ['application/x-msdos-program', 'application/vnd.microsoft.portable-executable']],
+  ['image/vnd.microsoft.icon', ['image/x-icon', 'image/ico']],
+  ['image/bmp', ['image/x-bmp', 'image/x-ms-bmp']],
+  ['audio/mp4', ['audio/x-m4a', 'audio/m4a']],
+  ['audio/wav', ['audio/x-wav', 'audio/wave', 'audio/vnd.wave']],
+  ['audio/midi', ['audio/x-midi', 'audio/mid']],
+  ['audio/mpeg', ['audio/mp3']],
+  ['video/x-msvideo', ['video/avi', 'video/msvideo']],
+  ['font/ttf', ['application/x-font-ttf']],
+  ['font/otf', ['application/x-font-otf']],
+  ['font/woff', ['application/font-woff']],
+]);
+
+// The sizes of the known BMP info headers, from BITMAPCOREHEADER to BITMAPV5HEADER
+const BMP_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+/**
+ * Detect the type of a file from its first bytes (magic numbers),
+ * regardless of its extension or the type reported by the browser.
+ *
+ * @param {File} file
+ * @returns {Promise<string|undefined>} The detected MIME type or undefined if the format is not known
+ */
+export async function detectMimeType(file: File): Promise<string | undefined> {
+  const buffer = await file.slice(0, SNIFF_LENGTH).arrayBuffer();
+  return mimeTypeFromBytes(new Uint8Array(buffer), file.name);
+}
+
+/**
+ * Get a detected MIME type and the other names it is known by.
+ *
+ * @param {string} type A type returned by {mimeTypeFromBytes}
+ * @returns {string[]} The type itself, followed by its aliases
+ */
+export function mimeTypeAliases(type: string): string[] {
+  return [type].concat(MIME_TYPE_ALIASES.get(type) || []);
+}
+
+/**
+ * Detect the MIME type from the leading bytes of a file.
+ * The file name is only used to tell container formats apart (e.g. ZIP vs DOCX).
+ *
+ * @param {Uint8Array} bytes
+ * @param {string} [name]
+ * @returns {string|undefined}
+ */
+export function mimeTypeFromBytes(bytes: Uint8Array, name = ''): string | undefined {
+  const ext = name.lastIndexOf('.') !== -1 ? name.split('.').pop()!.toLowerCase() : '';
+  const startsWith = (sig: (number | null)[], offset = 0) =>
+    bytes.length >= offset + sig.length && sig.every((b, i) => b === null || bytes[offset + i] === b);
+  const ascii = (str: string, offset = 0) =>
+    startsWith(
+      str.split('').map((c) => c.charCodeAt(0)),
+      offset
+    );
+  const text = (offset: number, length: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+  // Out of range reads return undefined, so that they never match
+  const uint16 = (offset: number, littleEndian = false) =>
+    bytes.length >= offset + 2
+      ? littleEndian
+        ? bytes[offset] | (bytes[offset + 1] << 8)
+        : (bytes[offset] << 8) | bytes[offset + 1]
+      : undefined;
+  const uint32 = (offset: number, littleEndian = false) => {
+    const high = uint16(offset, littleEndian);
+    const low = uint16(offset + 2, littleEndian);
+    if (high === undefined || low === undefined) {
+      return undefined;
+    }
+    return littleEndian ? low * 0x10000 + high : high * 0x10000 + low;
+  };
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (ascii('GIF87a') || ascii('GIF89a')) {
+    return 'image/gif';
+  }
+  if (ascii('RIFF')) {
+    if (ascii('WEBP', 8)) return 'image/webp';
+    if (ascii('WAVE', 8)) return 'audio/wav';
+    if (ascii('AVI ', 8)) return 'video/x-msvideo';
+    return undefined;
+  }
+  if (ascii('BM') && BMP_HEADER_SIZES.indexOf(uint32(14, true)!) !== -1) {
+    return 'image/bmp';
+  }
+  if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a])) {
+    return 'image/tiff';
+  }
+  if (startsWith([0x00, 0x00, 0x01, 0x00]) && uint16(4, true)! > 0 && bytes[9] === 0 && bytes.length >= 22) {
+    // At least one image, whose directory entry has a zero reserved byte
+    return 'image/vnd.microsoft.icon';
+  }
+  if (ascii('ftyp', 4) && uint32(0)! >= 16) {
+    // ISO base media file, the major brand tells which format it is
+    return ISO_BRANDS.get(text(8, 4));
+  }
+  if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) {
+    return ext === 'webm' ? 'video/webm' : 'video/x-matroska';
+  }
+  if (ascii('OggS')) {
+    return ext === 'ogv' ? 'video/ogg' : ext === 'ogx' ? 'application/ogg' : 'audio/ogg';
+  }
+  if (
+    (ascii('ID3') && bytes[3] >= 2 && bytes[3] <= 4) ||
+    startsWith([0xff, 0xfb]) ||
+    startsWith([0xff, 0xf3]) ||
+    startsWith([0xff, 0xf2])
+  ) {
+    return 'audio/mpeg';
+  }
+  if (ascii('MThd') && uint32(4) === 6) {
+    return 'audio/midi';
+  }
+  if (ascii('%PDF-')) {
+    return 'application/pdf';
+  }
+  if (ascii('{\\rtf')) {
+    return 'application/rtf';
+  }
+  if (ascii('PK') && (startsWith([0x03, 0x04], 2) || startsWith([0x05, 0x06], 2) || startsWith([0x07, 0x08], 2))) {
+    return ZIP_BASED_TYPES.get(ext) || 'application/zip';
+  }
+  if (startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return OLE_BASED_TYPES.get(ext) || 'application/x-ole-storage';
+  }
+  if (ascii('Rar!', 0) && startsWith([0x1a, 0x07], 4)) {
+    return 'application/vnd.rar';
+  }
+  if (startsWith([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+    return 'application/x-7z-compressed';
+  }
+  if (startsWith([0x1f, 0x8b, 0x08])) {
+    return 'application/gzip';
+  }
+  if (ascii('BZh') && bytes[3] >= 0x31 && bytes[3] <= 0x39) {
+    return 'application/x-bzip2';
+  }
+  if (ascii('ustar', 257)) {
+    return 'application/x-tar';
+  }
+  if (ascii('wOFF')) {
+    return 'font/woff';
+  }
+  if (ascii('wOF2')) {
+    return 'font/woff2';
+  }
+  if (ascii('OTTO')) {
+    return 'font/otf';
+  }
+  if (startsWith([0x00, 0x01, 0x00, 0x00])) {
+    // The table directory must be consistent: searchRange is 16 times the largest power of 2 <= numTables
+    const numTables = uint16(4);
+    if (numTables && uint16(6) === 16 * 2 ** Math.floor(Math.log2(numTables))) {
+      return 'font/ttf';
+    }
+    return undefined;
+  }
+  if (ascii('MZ')) {
+    // Only Windows executables, which have a PE header at the offset stored at 0x3c
+    const peOffset = uint32(0x3c, true);
+    return peOffset !== undefined && startsWith([0x50, 0x45, 0x00, 0x00], peOffset)
+      ? 'application/x-msdownload'
+      : undefined;
+  }
+  if (startsWith([0x7f, 0x45, 0x4c, 0x46])) {
+    return 'application/x-executable';
+  }
+  return undefined;
+}
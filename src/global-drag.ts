@@ -0,0 +1,133 @@
+import { useSyncExternalStore } from 'react';
+
+export type DocumentDragListener = (event: DragEvent) => void;
+
+const DRAG_EVENT_TYPES = ['dragenter', 'dragover', 'dragleave', 'drop', 'dragend'] as const;
+
+// The listeners that share the document listeners, e.g. the ones of the dropzones that prevent drops on the document
+const documentListeners = new Set<DocumentDragListener>();
+
+function onDocumentDragEvent(event: DragEvent) {
+  documentListeners.forEach((listener) => listener(event));
+}
+
+/**
+ * Listen to the drag events of the whole document.
+ * All listeners share one set of document listeners, in the capture phase so that the events of
+ * dropzones which stop their propagation are still seen.
+ *
+ * @param {DocumentDragListener} listener
+ * @returns {Function} A function that removes the listener
+ */
+export function addDocumentDragListener(listener: DocumentDragListener) {
+  if (documentListeners.size === 0) {
+    DRAG_EVENT_TYPES.forEach((type) => document.addEventListener(type, onDocumentDragEvent, true));
+  }
+  documentListeners.add(listener);
+
+  return () => {
+    documentListeners.delete(listener);
+    if (documentListeners.size === 0) {
+      DRAG_EVENT_TYPES.forEach((type) => document.removeEventListener(type, onDocumentDragEvent, true));
+    }
+  };
+}
+
+// Browsers fire dragover every few hundred ms while a drag is over the document, even if the pointer does not move
+const DRAG_TIMEOUT = 1000;
+
+const listeners = new Set<() => void>();
+// The number of elements the drag has entered but not left yet
+let depth = 0;
+let isDragging = false;
+let watchdog: ReturnType<typeof setTimeout> | undefined;
+let removeDocumentListener: (() => void) | undefined;
+
+function setDragging(dragging: boolean) {
+  if (dragging !== isDragging) {
+    isDragging = dragging;
+    listeners.forEach((listener) => listener());
+  }
+}
+
+function reset() {
+  depth = 0;
+  clearTimeout(watchdog);
+  setDragging(false);
+}
+
+// Reset if the drag events stop coming in, e.g. when a dragleave is missed as the drag is cancelled
+function keepAlive() {
+  clearTimeout(watchdog);
+  watchdog = setTimeout(reset, DRAG_TIMEOUT);
+}
+
+function hasFiles(event: DragEvent) {
+  const types = event.dataTransfer ? event.dataTransfer.types : undefined;
+  return !!types && Array.prototype.indexOf.call(types, 'Files') !== -1;
+}
+
+function trackDrag(event: DragEvent) {
+  if (event.type === 'dragenter' && hasFiles(event)) {
+    depth++;
+    keepAlive();
+    setDragging(true);
+  } else if (event.type === 'dragover' && hasFiles(event)) {
+    // The dragenter was missed, e.g. because the drag started over an iframe
+    depth = Math.max(depth, 1);
+    keepAlive();
+    setDragging(true);
+  } else if (event.type === 'dragleave' && isDragging) {
+    // Entering a child fires its dragenter before the dragleave of the parent,
+    // so the depth only drops to 0 when the drag leaves the document or moves onto an iframe
+    depth = Math.max(0, depth - 1);
+    if (depth === 0) {
+      reset();
+    }
+  } else if (event.type === 'drop' || event.type === 'dragend') {
+    reset();
+  }
+}
+
+function subscribe(listener: () => void) {
+  if (listeners.size === 0) {
+    removeDocumentListener = addDocumentDragListener(trackDrag);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && removeDocumentListener) {
+      removeDocumentListener();
+      removeDocumentListener = undefined;
+      reset();
+    }
+  };
+}
+
+function getSnapshot() {
+  return isDragging;
+}
+
+function getServerSnapshot() {
+  return false;
+}
+
+function subscribeNothing() {
+  return () => {};
+}
+
+/**
+ * Check if files are being dragged anywhere over the browser window, e.g. to show a full-page drop overlay.
+ * All the components that use it share one set of document listeners.
+ *
+ * @param {boolean} [enabled=true] If false, the drag is not tracked and the component does not re-render
+ * @returns {boolean}
+ */
+export function useGlobalFileDrag(enabled = true) {
+  return useSyncExternalStore(
+    enabled ? subscribe : subscribeNothing,
+    enabled ? getSnapshot : getServerSnapshot,
+    getServerSnapshot
+  );
+}
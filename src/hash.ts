@@ -0,0 +1,329 @@
+export type HashAlgorithm = 'sha-256' | 'sha-1' | 'md5';
+
+export type FileHashes = Partial<Record<HashAlgorithm, string>>;
+
+export interface HashProgress {
+  bytesHashed: number;
+  totalBytes: number;
+}
+
+export interface HashFileOptions {
+  algorithms?: HashAlgorithm[];
+  // Number of bytes read from the file at a time
+  chunkSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: HashProgress) => void;
+}
+
+/**
+ * An incremental hash function.
+ * The Web Crypto API can only digest a whole buffer at once, which is why the algorithms are implemented here.
+ */
+interface Hasher {
+  update(data: Uint8Array): void;
+  digest(): string;
+}
+
+const BLOCK_SIZE = 64;
+
+function rotl(x: number, n: number) {
+  return (x << n) | (x >>> (32 - n));
+}
+
+function rotr(x: number, n: number) {
+  return (x >>> n) | (x << (32 - n));
+}
+
+function readWordBE(bytes: Uint8Array, offset: number) {
+  return (bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+}
+
+function readWordLE(bytes: Uint8Array, offset: number) {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24);
+}
+
+function toHex(words: Int32Array, littleEndian: boolean) {
+  let hex = '';
+  words.forEach((word) => {
+    for (let i = 0; i < 4; i++) {
+      const shift = littleEndian ? i * 8 : 24 - i * 8;
+      hex += ((word >>> shift) & 0xff).toString(16).padStart(2, '0');
+    }
+  });
+  return hex;
+}
+
+/**
+ * Create a Merkle–Damgård hasher (MD5, SHA-1 and SHA-2 all share the same padding and 64 byte blocks).
+ *
+ * @param {number[]} init The initial hash values
+ * @param {Function} compress Process one block at the given offset and update the hash values
+ * @param {boolean} littleEndian Byte order of the message length and the digest
+ * @returns {Hasher}
+ */
+function createHasher(
+  init: number[],
+  compress: (h: Int32Array, block: Uint8Array, offset: number) => void,
+  littleEndian: boolean
+): Hasher {
+  const h = Int32Array.from(init);
+  const buffer = new Uint8Array(BLOCK_SIZE);
+  let buffered = 0;
+  let length = 0;
+
+  const process = (data: Uint8Array) => {
+    let i = 0;
+
+    if (buffered > 0) {
+      const n = Math.min(BLOCK_SIZE - buffered, data.length);
+      buffer.set(data.subarray(0, n), buffered);
+      buffered += n;
+      i = n;
+      if (buffered < BLOCK_SIZE) {
+        return;
+      }
+      compress(h, buffer, 0);
+      buffered = 0;
+    }
+
+    for (; i + BLOCK_SIZE <= data.length; i += BLOCK_SIZE) {
+      compress(h, data, i);
+    }
+
+    buffer.set(data.subarray(i), 0);
+    buffered = data.length - i;
+  };
+
+  return {
+    update(data) {
+      length += data.length;
+      process(data);
+    },
+    digest() {
+      // Pad with 0x80, zeros and the message length in bits as a 64 bit integer
+      const padLength = buffered < 56 ? 56 - buffered : 120 - buffered;
+      const padding = new Uint8Array(padLength + 8);
+      padding[0] = 0x80;
+
+      // Split the bit length in two 32 bit words without overflowing
+      const hi = Math.floor(length / 0x20000000);
+      const lo = (length % 0x20000000) * 8;
+      const view = new DataView(padding.buffer);
+      if (littleEndian) {
+        view.setUint32(padLength, lo, true);
+        view.setUint32(padLength + 4, hi, true);
+      } else {
+        view.setUint32(padLength, hi);
+        view.setUint32(padLength + 4, lo);
+      }
+
+      process(padding);
+      return toHex(h, littleEndian);
+    },
+  };
+}
+
+// prettier-ignore
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function createSha256(): Hasher {
+  const w = new Int32Array(64);
+
+  return createHasher(
+    [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19],
+    (h, block, offset) => {
+      for (let t = 0; t < 16; t++) {
+        w[t] = readWordBE(block, offset + t * 4);
+      }
+      for (let t = 16; t < 64; t++) {
+        const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+        const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+        w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+      }
+
+      let [a, b, c, d, e, f, g, hh] = h;
+      for (let t = 0; t < 64; t++) {
+        const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t]) | 0;
+        const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+        hh = g;
+        g = f;
+        f = e;
+        e = (d + t1) | 0;
+        d = c;
+        c = b;
+        b = a;
+        a = (t1 + t2) | 0;
+      }
+
+      h[0] += a;
+      h[1] += b;
+      h[2] += c;
+      h[3] += d;
+      h[4] += e;
+      h[5] += f;
+      h[6] += g;
+      h[7] += hh;
+    },
+    false
+  );
+}
+
+function createSha1(): Hasher {
+  const w = new Int32Array(80);
+
+  return createHasher(
+    [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+    (h, block, offset) => {
+      for (let t = 0; t < 16; t++) {
+        w[t] = readWordBE(block, offset + t * 4);
+      }
+      for (let t = 16; t < 80; t++) {
+        w[t] = rotl(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 1);
+      }
+
+      let [a, b, c, d, e] = h;
+      for (let t = 0; t < 80; t++) {
+        let f;
+        let k;
+        if (t < 20) {
+          f = (b & c) | (~b & d);
+          k = 0x5a827999;
+        } else if (t < 40) {
+          f = b ^ c ^ d;
+          k = 0x6ed9eba1;
+        } else if (t < 60) {
+          f = (b & c) | (b & d) | (c & d);
+          k = 0x8f1bbcdc;
+        } else {
+          f = b ^ c ^ d;
+          k = 0xca62c1d6;
+        }
+        const temp = (rotl(a, 5) + f + e + k + w[t]) | 0;
+        e = d;
+        d = c;
+        c = rotl(b, 30);
+        b = a;
+        a = temp;
+      }
+
+      h[0] += a;
+      h[1] += b;
+      h[2] += c;
+      h[3] += d;
+      h[4] += e;
+    },
+    false
+  );
+}
+
+// prettier-ignore
+const MD5_S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+function createMd5(): Hasher {
+  const m = new Int32Array(16);
+
+  return createHasher(
+    [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476],
+    (h, block, offset) => {
+      for (let i = 0; i < 16; i++) {
+        m[i] = readWordLE(block, offset + i * 4);
+      }
+
+      let [a, b, c, d] = h;
+      for (let i = 0; i < 64; i++) {
+        let f;
+        let g;
+        if (i < 16) {
+          f = (b & c) | (~b & d);
+          g = i;
+        } else if (i < 32) {
+          f = (d & b) | (~d & c);
+          g = (5 * i + 1) % 16;
+        } else if (i < 48) {
+          f = b ^ c ^ d;
+          g = (3 * i + 5) % 16;
+        } else {
+          f = c ^ (b | ~d);
+          g = (7 * i) % 16;
+        }
+        f = (f + a + MD5_K[i] + m[g]) | 0;
+        a = d;
+        d = c;
+        c = b;
+        b = (b + rotl(f, MD5_S[i])) | 0;
+      }
+
+      h[0] += a;
+      h[1] += b;
+      h[2] += c;
+      h[3] += d;
+    },
+    true
+  );
+}
+
+const HASHERS: Record<HashAlgorithm, () => Hasher> = {
+  'sha-256': createSha256,
+  'sha-1': createSha1,
+  md5: createMd5,
+};
+
+/**
+ * Compute the digests of a file, reading it a chunk at a time
+ * so that large files are never loaded into memory at once.
+ *
+ * @param {File} file
+ * @param {HashFileOptions} [options]
+ * @param {HashAlgorithm[]} [options.algorithms=['sha-256']]
+ * @param {number} [options.chunkSize=4194304] Number of bytes read at a time
+ * @param {AbortSignal} [options.signal] Stops hashing and rejects with an AbortError when aborted
+ * @param {Function} [options.onProgress] Cb for when a chunk has been hashed
+ * @returns {Promise<FileHashes>} The hex digests, keyed by algorithm
+ */
+export async function hashFile(
+  file: File,
+  { algorithms = ['sha-256'], chunkSize = 4 * 1024 * 1024, signal, onProgress }: HashFileOptions = {}
+): Promise<FileHashes> {
+  const hashers = algorithms.map((algorithm) => HASHERS[algorithm]());
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    if (signal && signal.aborted) {
+      throw new DOMException('Hashing was aborted', 'AbortError');
+    }
+
+    const chunk = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+    hashers.forEach((hasher) => hasher.update(chunk));
+
+    if (onProgress) {
+      onProgress({ bytesHashed: Math.min(offset + chunkSize, file.size), totalBytes: file.size });
+    }
+  }
+
+  if (signal && signal.aborted) {
+    throw new DOMException('Hashing was aborted', 'AbortError');
+  }
+
+  return algorithms.reduce(
+    (hashes, algorithm, i) => ({
+      ...hashes,
+      [algorithm]: hashers[i].digest(),
+    }),
+    {} as FileHashes
+  );
+}
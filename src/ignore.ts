@@ -0,0 +1,189 @@
+/**
+ * The files that are always left out of a drop unless the `ignore` option says otherwise.
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  // Thumbnail cache files for macOS and Windows
+  '.DS_Store',
+  'Thumbs.db',
+];
+
+/**
+ * Patterns for files that are rarely meant to be uploaded when a whole folder is dropped:
+ * VCS metadata, dependencies, archive leftovers, dotfiles and editor swap files.
+ */
+export const COMMON_IGNORE_PATTERNS = [
+  ...DEFAULT_IGNORE_PATTERNS,
+  'desktop.ini',
+  '.git/',
+  '.svn/',
+  '.hg/',
+  'node_modules/',
+  '__MACOSX/',
+  '.*',
+  '*.swp',
+  '*.swo',
+  '*~',
+  // Escaped, a leading # starts a comment
+  '\\#*#',
+];
+
+/**
+ * A parsed gitignore-style pattern.
+ */
+export interface IgnoreRule {
+  // The folder the pattern is relative to, '' for the root of the drop
+  base: string;
+  negate: boolean;
+  // Patterns with a trailing slash only match folders
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Convert a glob to a RegExp source where wildcards never match a slash, except for **
+function globToRegExp(glob: string) {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+
+    if (c === '*') {
+      const isSegment = i === 0 || glob[i - 1] === '/';
+      if (glob[i + 1] === '*' && isSegment && glob[i + 2] === '/') {
+        // Leading or inner **/ matches zero or more folders
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (glob[i + 1] === '*' && isSegment && i + 2 === glob.length) {
+        // Trailing /** matches everything inside
+        source += '.*';
+        i += 1;
+      } else {
+        source += '[^/]*';
+        while (glob[i + 1] === '*') {
+          i++;
+        }
+      }
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      // A ] right after the [ is part of the set
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        let set = glob.slice(i + 1, end);
+        if (set[0] === '!') {
+          set = `^${set.slice(1)}`;
+        } else if (set[0] === '^') {
+          set = `\\${set}`;
+        }
+        source += `[${set}]`;
+        i = end;
+      }
+    } else if (c === '\\' && i + 1 < glob.length) {
+      i++;
+      source += escapeRegExp(glob[i]);
+    } else {
+      source += escapeRegExp(c);
+    }
+  }
+
+  return source;
+}
+
+// Strip the leading ./ or / so that paths from entries, inputs and patterns can be compared
+function normalizePath(path: string) {
+  return path.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+}
+
+function parsePattern(line: string, base: string): IgnoreRule | undefined {
+  let pattern = line.replace(/(^|[^\\])\s+$/, '$1');
+  if (!pattern || pattern[0] === '#') {
+    return undefined;
+  }
+
+  let negate = false;
+  if (pattern[0] === '!') {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern[0] === '\\' && (pattern[1] === '!' || pattern[1] === '#')) {
+    pattern = pattern.slice(1);
+  }
+
+  const dirOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  // A slash anywhere but at the end anchors the pattern to the base folder
+  const anchored = pattern.indexOf('/') !== -1;
+  pattern = pattern.replace(/^\/+/, '');
+  if (!pattern) {
+    return undefined;
+  }
+
+  const source = globToRegExp(pattern);
+  return {
+    base: normalizePath(base),
+    negate,
+    dirOnly,
+    regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+  };
+}
+
+/**
+ * Parse gitignore-style patterns, see https://git-scm.com/docs/gitignore#_pattern_format.
+ *
+ * @param {string|string[]} patterns A list of patterns or the contents of a .gitignore file
+ * @param {string} [base] The folder the patterns are relative to, the root of the drop by default
+ * @returns {IgnoreRule[]}
+ */
+export function parseIgnorePatterns(patterns: string | string[], base = ''): IgnoreRule[] {
+  const lines = typeof patterns === 'string' ? patterns.split(/\r?\n/) : patterns;
+  return lines.map((line) => parsePattern(line, base)).filter((rule): rule is IgnoreRule => !!rule);
+}
+
+/**
+ * Check if a file or folder is ignored by the rules. Like in git, the last matching rule wins.
+ *
+ * @param {IgnoreRule[]} rules
+ * @param {string} path
+ * @param {boolean} isDirectory
+ * @returns {boolean}
+ */
+export function isIgnored(rules: IgnoreRule[], path: string, isDirectory: boolean) {
+  const normalized = normalizePath(path);
+  let ignored = false;
+
+  rules.forEach(({ base, negate, dirOnly, regex }) => {
+    if (dirOnly && !isDirectory) {
+      return;
+    }
+    if (base && !normalized.startsWith(`${base}/`)) {
+      return;
+    }
+    const relative = base ? normalized.slice(base.length + 1) : normalized;
+    if (regex.test(relative)) {
+      ignored = !negate;
+    }
+  });
+
+  return ignored;
+}
+
+/**
+ * Check if a file is ignored by the rules, either itself or because one of its folders is.
+ *
+ * @param {IgnoreRule[]} rules
+ * @param {string} path
+ * @returns {boolean}
+ */
+export function isIgnoredPath(rules: IgnoreRule[], path: string) {
+  const parts = normalizePath(path).split('/');
+  for (let i = 1; i < parts.length; i++) {
+    if (isIgnored(rules, parts.slice(0, i).join('/'), true)) {
+      return true;
+    }
+  }
+  return isIgnored(rules, path, false);
+}
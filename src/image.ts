@@ -0,0 +1,378 @@
+export interface ThumbnailOptions {
+  maxWidth: number;
+  maxHeight: number;
+  // The type of the rendered thumbnail, PNG by default to keep transparency
+  type?: string;
+  quality?: number;
+}
+
+type DecodedImage = ImageBitmap | HTMLImageElement;
+
+function loadImageElement(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be decoded'));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Decode an image, applying its EXIF orientation if the browser supports it.
+ * Images that createImageBitmap() cannot decode from a blob, e.g. SVG images, are loaded with an <img> instead.
+ *
+ * @param {Blob} file
+ * @returns {Promise<ImageBitmap|HTMLImageElement>}
+ */
+export async function decodeImage(file: Blob): Promise<DecodedImage> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      // The EXIF orientation is applied by default ('from-image')
+      return await createImageBitmap(file);
+    } catch {
+      // Fall back to the <img> below
+    }
+  }
+  return loadImageElement(file);
+}
+
+function releaseImage(image: DecodedImage) {
+  if ('close' in image) {
+    image.close();
+  }
+}
+
+/**
+ * Get the size that fits within the max size while keeping the aspect ratio.
+ * Images are never scaled up.
+ *
+ * @param {number} width
+ * @param {number} height
+ * @param {number} maxWidth
+ * @param {number} maxHeight
+ * @returns {{width: number, height: number}}
+ */
+export function fitWithin(width: number, height: number, maxWidth = Infinity, maxHeight = Infinity) {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Draw the image onto a canvas of the given size and encode it.
+ *
+ * @param {ImageBitmap|HTMLImageElement} image
+ * @param {number} width
+ * @param {number} height
+ * @param {string} type
+ * @param {number} [quality]
+ * @param {string} [background] A color to paint behind the image, for types without transparency
+ * @returns {Promise<Blob>}
+ */
+export function renderImage(
+  image: DecodedImage,
+  width: number,
+  height: number,
+  type: string,
+  quality?: number,
+  background?: string
+) {
+  return new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Cannot render the image because canvas 2d is not supported'));
+      return;
+    }
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('The image could not be encoded'));
+        }
+      },
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Render a downscaled copy of an image.
+ *
+ * @param {Blob} file
+ * @param {ThumbnailOptions} options
+ * @returns {Promise<Blob>}
+ */
+export async function createThumbnail(
+  file: Blob,
+  { maxWidth, maxHeight, type = 'image/png', quality }: ThumbnailOptions
+): Promise<Blob> {
+  const image = await decodeImage(file);
+  try {
+    const { width, height } = fitWithin(image.width, image.height, maxWidth, maxHeight);
+    return await renderImage(image, width, height, type, quality);
+  } finally {
+    releaseImage(image);
+  }
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// JPEG start of frame markers, which hold the image size (DHT, JPG and DAC share the range but are not frames)
+function isStartOfFrame(marker: number) {
+  return marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+}
+
+async function readBytes(file: Blob, start: number, end: number) {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Read the EXIF orientation from the TIFF structure of an APP1 segment.
+ * See https://www.media.mit.edu/pia/Research/deepview/exif.html.
+ *
+ * @param {DataView} view The segment contents, starting after the "Exif\0\0" header
+ * @returns {number} The orientation, 1 if it is not set
+ */
+function exifOrientation(view: DataView) {
+  if (view.byteLength < 8) {
+    return 1;
+  }
+  // "II" for little endian, "MM" for big endian
+  const byteOrder = view.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    return 1;
+  }
+  const littleEndian = byteOrder === 0x4949;
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset < 8 || ifdOffset + 2 > view.byteLength) {
+    return 1;
+  }
+
+  const entries = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) {
+      break;
+    }
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      const orientation = view.getUint16(entry + 8, littleEndian);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+}
+
+// Walk the JPEG segments up to the start of frame, reading only the segment headers
+async function jpegDimensions(file: Blob): Promise<ImageDimensions | undefined> {
+  let orientation = 1;
+  let offset = 2;
+
+  while (offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, offset + 4);
+    if (header.getUint8(0) !== 0xff) {
+      return undefined;
+    }
+
+    const marker = header.getUint8(1);
+    const length = header.getUint16(2);
+    // The length includes its own 2 bytes, a segment cannot end past the end of the file
+    if (length < 2 || offset + 2 + length > file.size) {
+      return undefined;
+    }
+
+    if (marker === 0xe1 && orientation === 1) {
+      const segment = await readBytes(file, offset + 4, offset + 2 + length);
+      // "Exif\0\0"
+      if (segment.byteLength > 6 && segment.getUint32(0) === 0x45786966 && segment.getUint16(4) === 0) {
+        orientation = exifOrientation(new DataView(segment.buffer, 6));
+      }
+    } else if (isStartOfFrame(marker)) {
+      // Precision (1 byte), height and width (2 bytes each)
+      const frame = await readBytes(file, offset + 5, offset + 9);
+      if (length < 7 || frame.byteLength < 4) {
+        return undefined;
+      }
+      const height = frame.getUint16(0);
+      const width = frame.getUint16(2);
+      // Orientations 5 to 8 rotate the image by 90 degrees
+      return orientation >= 5 ? { width: height, height: width } : { width, height };
+    }
+
+    offset += 2 + length;
+  }
+
+  return undefined;
+}
+
+function webpDimensions(view: DataView): ImageDimensions | undefined {
+  const chunk = view.getUint32(12);
+  if (chunk === 0x56503820) {
+    // "VP8 " lossy
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  } else if (chunk === 0x5650384c) {
+    // "VP8L" lossless
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  } else if (chunk === 0x56503858) {
+    // "VP8X" extended
+    const uint24 = (offset: number) =>
+      view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+    return { width: uint24(24) + 1, height: uint24(27) + 1 };
+  }
+  return undefined;
+}
+
+/**
+ * Read the size of an image from its header, without decoding the whole image.
+ * Formats other than PNG, JPEG, GIF, WebP and BMP are decoded by the browser.
+ * The EXIF orientation of JPEG images is taken into account.
+ *
+ * @param {Blob} file
+ * @returns {Promise<ImageDimensions|undefined>} The size in pixels or undefined if the image cannot be read
+ */
+export async function readImageDimensions(file: Blob): Promise<ImageDimensions | undefined> {
+  const view = await readBytes(file, 0, 32);
+  const size = view.byteLength;
+
+  if (size >= 24 && view.getUint32(0) === 0x89504e47 && view.getUint32(12) === 0x49484452) {
+    // PNG, IHDR is always the first chunk
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (size >= 10 && view.getUint32(0) === 0x47494638) {
+    // GIF8
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (size >= 26 && view.getUint16(0) === 0x424d) {
+    // BM, the height is negative for top-down bitmaps
+    return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+  }
+  if (size >= 30 && view.getUint32(0) === 0x52494646 && view.getUint32(8) === 0x57454250) {
+    // RIFF....WEBP
+    return webpDimensions(view);
+  }
+  if (size >= 3 && view.getUint16(0) === 0xffd8) {
+    return jpegDimensions(file);
+  }
+
+  try {
+    const image = await decodeImage(file);
+    const dimensions = { width: image.width, height: image.height };
+    releaseImage(image);
+    return dimensions;
+  } catch {
+    return undefined;
+  }
+}
+
+export interface ImageTransformOptions {
+  maxWidth?: number;
+  maxHeight?: number;
+  // The type images are encoded as, JPEG by default
+  type?: string;
+  // Encoding quality between 0 and 1 for lossy types
+  quality?: number;
+  // The color transparent pixels get when encoding as JPEG, which has no transparency. White by default
+  background?: string;
+  // If true, `minSize`/`maxSize` are checked against the transformed file instead of the dropped one
+  checkSizeAfterTransform?: boolean;
+}
+
+// Types that cannot hold transparent pixels, which would turn black
+const OPAQUE_TYPES = ['image/jpeg'];
+
+// Animated and vector images would lose what makes them special when drawn onto a canvas
+const UNTRANSFORMABLE_TYPES = ['image/gif', 'image/svg+xml'];
+
+const EXTENSIONS: { [type: string]: string } = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+/**
+ * Change the extension of a file name or path to the one of an image type.
+ *
+ * @param {string} path
+ * @param {string} type
+ * @returns {string}
+ */
+export function replaceExtension(path: string, type: string) {
+  const ext = EXTENSIONS[type];
+  return ext ? path.replace(/(\.[^./]*)?$/, `.${ext}`) : path;
+}
+
+/**
+ * Downscale an image to fit within the max size and re-encode it.
+ * The EXIF orientation is applied to the pixels, so the result is always upright.
+ * Images that are already small enough and of the right type are returned as is,
+ * as are the ones the browser cannot decode. Transparent pixels are painted with `background` for JPEG.
+ *
+ * @param {File} file
+ * @param {ImageTransformOptions} options
+ * @returns {Promise<File>} The new file, with the extension of its name changed to match its type
+ */
+export async function transformImage(
+  file: File,
+  { maxWidth, maxHeight, type = 'image/jpeg', quality = 0.85, background = '#fff' }: ImageTransformOptions
+): Promise<File> {
+  if (!file.type.startsWith('image/') || UNTRANSFORMABLE_TYPES.indexOf(file.type) !== -1) {
+    return file;
+  }
+
+  let image: DecodedImage;
+  try {
+    image = await decodeImage(file);
+  } catch {
+    return file;
+  }
+
+  try {
+    const { width, height } = fitWithin(image.width, image.height, maxWidth, maxHeight);
+    if (width === image.width && height === image.height && file.type === type) {
+      return file;
+    }
+
+    const blob = await renderImage(
+      image,
+      width,
+      height,
+      type,
+      quality,
+      OPAQUE_TYPES.indexOf(type) !== -1 ? background : undefined
+    );
+    // Browsers fall back to PNG for types they cannot encode
+    const name = blob.type === file.type ? file.name : replaceExtension(file.name, blob.type);
+    return new File([blob], name, {
+      type: blob.type,
+      lastModified: file.lastModified,
+    });
+  } finally {
+    releaseImage(image);
+  }
+}
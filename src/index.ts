@@ -1,2 +1,11 @@
 export {useDropzone} from "./dropzone"
-export {default as Dropzone} from "./dropzone"
\ No newline at end of file
+export {default as Dropzone} from "./dropzone"
+export {DropzoneProvider, useHoveredDropzone} from "./provider"
+export {useGlobalFileDrag} from "./global-drag"
+export {useDropzoneUpload, createXhrTransport, createFetchTransport} from "./upload"
+export {createTusTransport, tusFingerprint} from "./tus"
+export {hashFile} from "./hash"
+export {COMMON_IGNORE_PATTERNS, DEFAULT_IGNORE_PATTERNS} from "./ignore"
+export {registerMimeTypes, unregisterMimeTypes, getMimeType} from "./mime-types"
+export {MIME_DB} from "./mime-db"
+export {formatBytes, formatFileType, formatFileTypes} from "./messages"
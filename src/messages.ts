@@ -0,0 +1,135 @@
+/**
+ * The values a rejection is about, e.g. the max size and the size of the file for `file-too-large`.
+ */
+export interface FileErrorParams {
+  limit?: any;
+  actual?: any;
+  [key: string]: any;
+}
+
+/**
+ * A message for an error code, either a template where `{limit}`, `{actual}`, etc. are replaced
+ * by the formatted params, or a function that builds the message from the raw params.
+ */
+export type ErrorMessage = string | ((params: FileErrorParams, file: File) => string);
+
+export interface ErrorMessages {
+  [code: string]: ErrorMessage;
+}
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Format a number of bytes with the largest unit that keeps it at or above 1, e.g. `10485760` as `10 MB`.
+ * Units are powers of 1024.
+ *
+ * @param {number} bytes
+ * @param {string} [locale='en']
+ * @returns {string}
+ */
+export function formatBytes(bytes: number, locale = 'en') {
+  if (!isFinite(bytes)) {
+    return `${bytes}`;
+  }
+
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  const number = new Intl.NumberFormat(locale, { maximumFractionDigits: unit === 0 ? 0 : 1 }).format(value);
+  return `${number} ${BYTE_UNITS[unit]}`;
+}
+
+const TYPE_NAMES: { [type: string]: string } = {
+  'audio/*': 'audio files',
+  'image/*': 'images',
+  'text/*': 'text files',
+  'video/*': 'videos',
+  'application/msword': 'Word documents',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'Word documents',
+  'application/vnd.ms-excel': 'Excel spreadsheets',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'Excel spreadsheets',
+  'application/vnd.ms-powerpoint': 'PowerPoint presentations',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'PowerPoint presentations',
+  'application/octet-stream': 'binary files',
+  'application/x-msdownload': 'Windows executables',
+  'text/plain': 'text files',
+};
+
+/**
+ * Get a name people understand for a MIME type or an extension,
+ * e.g. `image/*` as `images`, `application/pdf` as `PDF` and `.docx` as `DOCX`.
+ *
+ * @param {string} type
+ * @returns {string}
+ */
+export function formatFileType(type: string) {
+  const normalized = type.trim().toLowerCase();
+  if (TYPE_NAMES[normalized]) {
+    return TYPE_NAMES[normalized];
+  }
+  if (normalized.charAt(0) === '.') {
+    return normalized.slice(1).toUpperCase();
+  }
+
+  // e.g. image/svg+xml, application/x-7z-compressed or application/vnd.rar
+  const subtype = normalized
+    .replace(/^[^/]*\//, '')
+    .replace(/\+.*$/, '')
+    .replace(/^(x-|vnd\.)/, '');
+  return subtype.length <= 5 ? subtype.toUpperCase() : subtype;
+}
+
+/**
+ * Join items into a sentence, e.g. `PNG, JPEG or PDF`.
+ *
+ * @param {string[]} items
+ * @param {string} [locale='en']
+ * @param {'conjunction'|'disjunction'} [type='disjunction']
+ * @returns {string}
+ */
+export function formatList(items: string[], locale = 'en', type: 'conjunction' | 'disjunction' = 'disjunction') {
+  if (typeof Intl.ListFormat === 'function') {
+    return new Intl.ListFormat(locale, { type }).format(items);
+  }
+  return items.join(', ');
+}
+
+/**
+ * Format the accepted types of a dropzone, without repeating the ones that have the same name.
+ *
+ * @param {string|string[]} accept The accept attribute or a list of MIME types and extensions
+ * @param {string} [locale='en']
+ * @returns {string}
+ */
+export function formatFileTypes(accept: string | string[], locale = 'en') {
+  const types = typeof accept === 'string' ? accept.split(',') : accept;
+  const names = types.map(formatFileType).filter((name, i, all) => name && all.indexOf(name) === i);
+  return formatList(names, locale);
+}
+
+/**
+ * Build the message of an error.
+ *
+ * @param {ErrorMessage} message
+ * @param {FileErrorParams} params The raw params, passed to message functions
+ * @param {object} formattedParams The params as they are shown in templates
+ * @param {File} file
+ * @returns {string}
+ */
+export function formatMessage(
+  message: ErrorMessage,
+  params: FileErrorParams,
+  formattedParams: { [key: string]: string },
+  file: File
+) {
+  if (typeof message === 'function') {
+    return message(params, file);
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, key) =>
+    key in formattedParams ? formattedParams[key] : placeholder
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * Extension to MIME type mappings, keyed by the lowercase extension without the leading dot.
+ * Compound extensions such as `tar.gz` are supported.
+ */
+export type MimeTypeMap = Record<string, string>;
+
+export const COMMON_MIME_TYPES = new Map([
+  // https://developer.mozilla.org/en-US/docs/Web/HTTP/Basics_of_HTTP/MIME_types/Common_types
+  ['aac', 'audio/aac'],
+  ['abw', 'application/x-abiword'],
+  ['arc', 'application/x-freearc'],
+  ['avif', 'image/avif'],
+  ['avi', 'video/x-msvideo'],
+  ['azw', 'application/vnd.amazon.ebook'],
+  ['bin', 'application/octet-stream'],
+  ['bmp', 'image/bmp'],
+  ['bz', 'application/x-bzip'],
+  ['bz2', 'application/x-bzip2'],
+  ['cda', 'application/x-cdf'],
+  ['csh', 'application/x-csh'],
+  ['css', 'text/css'],
+  ['csv', 'text/csv'],
+  ['doc', 'application/msword'],
+  ['docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  ['eot', 'application/vnd.ms-fontobject'],
+  ['epub', 'application/epub+zip'],
+  ['gz', 'application/gzip'],
+  ['gif', 'image/gif'],
+  ['heic', 'image/heic'],
+  ['heif', 'image/heif'],
+  ['htm', 'text/html'],
+  ['html', 'text/html'],
+  ['ico', 'image/vnd.microsoft.icon'],
+  ['ics', 'text/calendar'],
+  ['jar', 'application/java-archive'],
+  ['jpeg', 'image/jpeg'],
+  ['jpg', 'image/jpeg'],
+  ['js', 'text/javascript'],
+  ['json', 'application/json'],
+  ['jsonld', 'application/ld+json'],
+  ['mid', 'audio/midi'],
+  ['midi', 'audio/midi'],
+  ['mjs', 'text/javascript'],
+  ['mp3', 'audio/mpeg'],
+  ['mp4', 'video/mp4'],
+  ['mpeg', 'video/mpeg'],
+  ['mpkg', 'application/vnd.apple.installer+xml'],
+  ['odp', 'application/vnd.oasis.opendocument.presentation'],
+  ['ods', 'application/vnd.oasis.opendocument.spreadsheet'],
+  ['odt', 'application/vnd.oasis.opendocument.text'],
+  ['oga', 'audio/ogg'],
+  ['ogv', 'video/ogg'],
+  ['ogx', 'application/ogg'],
+  ['opus', 'audio/opus'],
+  ['otf', 'font/otf'],
+  ['png', 'image/png'],
+  ['pdf', 'application/pdf'],
+  ['php', 'application/x-httpd-php'],
+  ['ppt', 'application/vnd.ms-powerpoint'],
+  ['pptx', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  ['rar', 'application/vnd.rar'],
+  ['rtf', 'application/rtf'],
+  ['sh', 'application/x-sh'],
+  ['svg', 'image/svg+xml'],
+  ['swf', 'application/x-shockwave-flash'],
+  ['tar', 'application/x-tar'],
+  ['tif', 'image/tiff'],
+  ['tiff', 'image/tiff'],
+  ['ts', 'video/mp2t'],
+  ['ttf', 'font/ttf'],
+  ['txt', 'text/plain'],
+  ['vsd', 'application/vnd.visio'],
+  ['wav', 'audio/wav'],
+  ['weba', 'audio/webm'],
+  ['webm', 'video/webm'],
+  ['webp', 'image/webp'],
+  ['woff', 'font/woff'],
+  ['woff2', 'font/woff2'],
+  ['xhtml', 'application/xhtml+xml'],
+  ['xls', 'application/vnd.ms-excel'],
+  ['xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  ['xml', 'application/xml'],
+  ['xul', 'application/vnd.mozilla.xul+xml'],
+  ['zip', 'application/zip'],
+  ['7z', 'application/x-7z-compressed'],
+
+  // Others
+  ['md', 'text/markdown'],
+  ['mkv', 'video/x-matroska'],
+  ['mov', 'video/quicktime'],
+  ['msg', 'application/vnd.ms-outlook'],
+  ['parquet', 'application/vnd.apache.parquet'],
+  ['tgz', 'application/gzip'],
+
+  // Compound extensions, which take precedence over their last part (e.g. .d.ts is not a video like .ts)
+  ['d.ts', 'application/typescript'],
+  ['tar.gz', 'application/gzip'],
+  ['tar.bz2', 'application/x-bzip2'],
+  ['tar.xz', 'application/x-xz'],
+]);
+
+// Mappings registered with registerMimeTypes(), which take precedence over COMMON_MIME_TYPES
+const registeredMimeTypes = new Map<string, string>();
+
+/**
+ * Add or override extension to MIME type mappings for all dropzones.
+ *
+ * @param {MimeTypeMap} types e.g. `{glb: 'model/gltf-binary', 'tar.zst': 'application/zstd'}`
+ */
+export function registerMimeTypes(types: MimeTypeMap) {
+  Object.keys(types).forEach((ext) => {
+    registeredMimeTypes.set(normalizeExtension(ext), types[ext]);
+  });
+}
+
+/**
+ * Remove mappings added with registerMimeTypes().
+ *
+ * @param {string[]} extensions
+ */
+export function unregisterMimeTypes(extensions: string[]) {
+  extensions.forEach((ext) => {
+    registeredMimeTypes.delete(normalizeExtension(ext));
+  });
+}
+
+function normalizeExtension(ext: string) {
+  return ext.replace(/^\./, '').toLowerCase();
+}
+
+/**
+ * Get the extensions of a file name from the longest to the shortest,
+ * e.g. `archive.tar.gz` gives `tar.gz` and `gz`.
+ *
+ * @param {string} name
+ * @returns {string[]}
+ */
+export function getExtensions(name: string) {
+  // A leading dot marks a hidden file, not an extension
+  const parts = name.toLowerCase().replace(/^\.+/, '').split('.');
+  return parts.slice(1).map((_, i) => parts.slice(i + 1).join('.'));
+}
+
+/**
+ * Look up the MIME type of a file name.
+ * The longest matching extension wins, then the mappings are checked in this order:
+ * the given ones, the registered ones and COMMON_MIME_TYPES.
+ *
+ * @param {string} name
+ * @param {MimeTypeMap} [mimeTypes] Mappings that take precedence over all others, e.g. the ones of a dropzone
+ * @returns {string|undefined}
+ */
+export function getMimeType(name: string, mimeTypes?: MimeTypeMap) {
+  const overrides = new Map<string, string>();
+  if (mimeTypes) {
+    Object.keys(mimeTypes).forEach((ext) => overrides.set(normalizeExtension(ext), mimeTypes[ext]));
+  }
+
+  for (const ext of getExtensions(name)) {
+    const type = overrides.get(ext) || registeredMimeTypes.get(ext) || COMMON_MIME_TYPES.get(ext);
+    if (type) {
+      return type;
+    }
+  }
+  return undefined;
+}
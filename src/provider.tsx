@@ -0,0 +1,147 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+
+/**
+ * A dropzone registered with the provider.
+ */
+export interface DropzoneZone {
+  id: string;
+  rootRef: React.RefObject<HTMLElement>;
+  // Cb for when files are dropped anywhere on the page, so the zone can forget its drag targets
+  onDocumentDrop: () => void;
+}
+
+export interface DropzoneContextValue {
+  register: (zone: DropzoneZone) => () => void;
+  // Get the id of the innermost zone that contains the target
+  getTargetZone: (target: EventTarget | null) => string | null;
+  hoveredZoneId: string | null;
+}
+
+export const DropzoneContext = createContext<DropzoneContextValue | null>(null);
+
+export interface DropzoneProviderProps {
+  children?: React.ReactNode;
+  preventDropOnDocument?: boolean;
+}
+
+function findInnermostZone(zones: Map<string, DropzoneZone>, target: EventTarget | null) {
+  if (!(target instanceof Node)) {
+    return null;
+  }
+
+  let innermost: HTMLElement | null = null;
+  let innermostId: string | null = null;
+  zones.forEach(({ id, rootRef }) => {
+    const root = rootRef.current;
+    if (root && root.contains(target) && (!innermost || innermost.contains(root))) {
+      innermost = root;
+      innermostId = id;
+    }
+  });
+  return innermostId;
+}
+
+/**
+ * Coordinate the dropzones rendered inside it, so that nested and sibling zones agree on which one is dragged over.
+ * Only the innermost zone under the pointer is active and receives the files, and all zones share one set of
+ * document listeners instead of adding their own.
+ *
+ * ```jsx
+ * <DropzoneProvider>
+ *   <Board>
+ *     <Column />
+ *     <Column />
+ *   </Board>
+ * </DropzoneProvider>
+ * ```
+ *
+ * @param {object} props
+ * @param {boolean} [props.preventDropOnDocument=true] If false, allow dropped items to take over the current browser
+ * window when they are dropped outside of the zones. This replaces the prop of the same name of the zones.
+ */
+export function DropzoneProvider({ children, preventDropOnDocument = true }: DropzoneProviderProps) {
+  const zonesRef = useRef(new Map<string, DropzoneZone>());
+  const [hoveredZoneId, setHoveredZoneId] = useState<string | null>(null);
+  // The elements the pointer entered and has not left yet, like the dragTargetsRef of the zones
+  const dragTargetsRef = useRef<EventTarget[]>([]);
+
+  const register = useCallback((zone: DropzoneZone) => {
+    zonesRef.current.set(zone.id, zone);
+    return () => {
+      if (zonesRef.current.get(zone.id) === zone) {
+        zonesRef.current.delete(zone.id);
+      }
+      setHoveredZoneId((id) => (id === zone.id ? null : id));
+    };
+  }, []);
+
+  const getTargetZone = useCallback((target: EventTarget | null) => findInnermostZone(zonesRef.current, target), []);
+
+  useEffect(() => {
+    // Listen in the capture phase so that zones which stop the propagation of drag events are still tracked
+    const onDragOver = (event: DragEvent) => {
+      if (preventDropOnDocument) {
+        // Allow the entire document to be a drag target
+        event.preventDefault();
+      }
+      setHoveredZoneId(getTargetZone(event.target));
+    };
+    const onDragEnter = (event: DragEvent) => {
+      if (event.target && dragTargetsRef.current.indexOf(event.target) === -1) {
+        dragTargetsRef.current = [...dragTargetsRef.current, event.target];
+      }
+      setHoveredZoneId(getTargetZone(event.target));
+    };
+    const onDragLeave = (event: DragEvent) => {
+      // Count the entered elements instead of relying on relatedTarget, which Safari leaves null
+      // when moving between elements. Elements removed from the page in the meantime are dropped too.
+      const targets = dragTargetsRef.current.filter(
+        (target) => target !== event.target && target instanceof Node && document.contains(target)
+      );
+      dragTargetsRef.current = targets;
+      if (targets.length === 0) {
+        setHoveredZoneId(null);
+      }
+    };
+    const onDrop = (event: DragEvent) => {
+      if (preventDropOnDocument && !getTargetZone(event.target)) {
+        event.preventDefault();
+      }
+      dragTargetsRef.current = [];
+      setHoveredZoneId(null);
+      zonesRef.current.forEach((zone) => zone.onDocumentDrop());
+    };
+    const onDragEnd = () => {
+      dragTargetsRef.current = [];
+      setHoveredZoneId(null);
+    };
+
+    document.addEventListener('dragenter', onDragEnter, true);
+    document.addEventListener('dragover', onDragOver, true);
+    document.addEventListener('dragleave', onDragLeave, true);
+    document.addEventListener('drop', onDrop, true);
+    document.addEventListener('dragend', onDragEnd, true);
+    return () => {
+      document.removeEventListener('dragenter', onDragEnter, true);
+      document.removeEventListener('dragover', onDragOver, true);
+      document.removeEventListener('dragleave', onDragLeave, true);
+      document.removeEventListener('drop', onDrop, true);
+      document.removeEventListener('dragend', onDragEnd, true);
+    };
+  }, [preventDropOnDocument, getTargetZone]);
+
+  const value = useMemo(() => ({ register, getTargetZone, hoveredZoneId }), [register, getTargetZone, hoveredZoneId]);
+
+  return <DropzoneContext.Provider value={value}>{children}</DropzoneContext.Provider>;
+}
+
+/**
+ * Get the id of the dropzone that is currently dragged over, null if there is none
+ * or if the component is not inside a DropzoneProvider.
+ *
+ * @returns {string|null}
+ */
+export function useHoveredDropzone() {
+  const context = useContext(DropzoneContext);
+  return context ? context.hoveredZoneId : null;
+}
@@ -0,0 +1,100 @@
+export interface TextAsFileOptions {
+  // The payload types to turn into a file, in order of preference
+  types?: string[];
+  // The name of the file, built from the first words of the text by default
+  name?: string | ((text: string, type: string) => string);
+  // The MIME type of the file, the payload type by default
+  type?: string | ((payloadType: string) => string);
+}
+
+/**
+ * The payload types that are turned into files by default, in order of preference.
+ */
+export const TEXT_TYPES = ['text/markdown', 'text/plain', 'text/html'];
+
+const TEXT_EXTENSIONS: { [type: string]: string } = {
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'text/markdown': 'md',
+};
+
+// Characters that are not allowed in file names on some systems
+const UNSAFE_CHARS = /[\\/:*?"<>|\u0000-\u001f]+/g;
+
+/**
+ * Get the payload types to look for in a drop or paste.
+ *
+ * @param {boolean|TextAsFileOptions} options
+ * @returns {string[]}
+ */
+export function textTypes(options: boolean | TextAsFileOptions) {
+  return (typeof options === 'object' && options.types) || TEXT_TYPES;
+}
+
+/**
+ * Build a file name from the first words of a text, e.g. `Meeting notes.txt`.
+ *
+ * @param {string} text
+ * @param {string} type The MIME type of the file, which sets the extension
+ * @returns {string}
+ */
+export function textFileName(text: string, type: string) {
+  const content = type === 'text/html' ? text.replace(/<[^>]*>/g, ' ') : text;
+  const firstLine = content.trim().split(/\r?\n/)[0] || '';
+  const words = firstLine.replace(UNSAFE_CHARS, ' ').replace(/\s+/g, ' ').trim().slice(0, 40).trim();
+  const extension = TEXT_EXTENSIONS[type] || type.replace(/^[^/]*\//, '').replace(/[+;].*$/, '');
+  return `${words || 'text'}.${extension}`;
+}
+
+function textFileType(payloadType: string, options: boolean | TextAsFileOptions) {
+  const { type } = typeof options === 'object' ? options : ({} as TextAsFileOptions);
+  return typeof type === 'function' ? type(payloadType) : type || payloadType;
+}
+
+/**
+ * Get the MIME type of the file the text of a drag would be turned into, from the payload types.
+ * The text itself is only available on drop, so this is all that is known during a drag.
+ *
+ * @param {string[]} types The types of the drag, see DataTransfer.types
+ * @param {boolean|TextAsFileOptions} options
+ * @param {Function} [isAccepted] Check if a MIME type would be accepted by the dropzone
+ * @returns {string|undefined}
+ */
+export function draggedTextType(
+  types: string[],
+  options: boolean | TextAsFileOptions,
+  isAccepted: (type: string) => boolean = () => true
+) {
+  const fileTypes = textTypes(options)
+    .filter((payloadType) => types.indexOf(payloadType) !== -1)
+    .map((payloadType) => textFileType(payloadType, options));
+  return fileTypes.find(isAccepted) || fileTypes[0];
+}
+
+/**
+ * Turn the text of a drop or paste into a file. If there are several payloads (e.g. text/html and text/plain
+ * when a selection is dragged), the first one that is accepted is used, or the first one there is if none is.
+ *
+ * @param {DataTransfer} dt
+ * @param {boolean|TextAsFileOptions} options
+ * @param {Function} [isAccepted] Check if the file would be accepted by the dropzone
+ * @returns {File|undefined}
+ */
+export function textToFile(
+  dt: DataTransfer,
+  options: boolean | TextAsFileOptions,
+  isAccepted: (file: File) => boolean = () => true
+) {
+  const { name = textFileName } = typeof options === 'object' ? options : ({} as TextAsFileOptions);
+
+  const files = textTypes(options)
+    .map((payloadType) => ({ payloadType, text: dt.getData(payloadType) }))
+    .filter(({ text }) => text)
+    .map(({ payloadType, text }) => {
+      const fileType = textFileType(payloadType, options);
+      const fileName = typeof name === 'function' ? name(text, fileType) : name;
+      return new File([text], fileName, { type: fileType, lastModified: Date.now() });
+    });
+
+  return files.find(isAccepted) || files[0];
+}
@@ -0,0 +1,240 @@
+import type { FileWithPath } from './dropzone';
+import { createUploadError, UploadTransport } from './upload';
+
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Where the upload URLs are kept between page loads so interrupted uploads can be resumed.
+ */
+export interface TusUrlStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface TusOptions {
+  endpoint: string;
+  // Size (in bytes) of the body of each PATCH request
+  chunkSize?: number;
+  headers?: Record<string, string>;
+  metadata?: (file: File) => Record<string, string>;
+  fingerprint?: (file: File) => string;
+  storage?: TusUrlStorage;
+  withCredentials?: boolean;
+}
+
+/**
+ * Get a key that identifies the same file when it is dropped again.
+ *
+ * @param {FileWithPath} file
+ * @returns {string}
+ */
+export function tusFingerprint(file: FileWithPath) {
+  return ['tus', file.path || file.name, file.size, file.lastModified].join('::');
+}
+
+function defaultMetadata(file: File) {
+  return {
+    filename: file.name,
+    filetype: file.type || 'application/octet-stream',
+  };
+}
+
+function createMemoryStorage(): TusUrlStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => (items.has(key) ? items.get(key)! : null),
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+function defaultStorage(): TusUrlStorage {
+  try {
+    // Accessing localStorage throws if it is disabled (e.g. in some private modes)
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return window.localStorage;
+    }
+  } catch {} /* eslint-disable-line no-empty */
+  return createMemoryStorage();
+}
+
+// https://tus.io/protocols/resumable-upload#upload-metadata
+function encodeMetadata(metadata: Record<string, string>) {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${toBase64(value)}`)
+    .join(',');
+}
+
+function toBase64(value: string) {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+// Resolve relative URLs against the page, like fetch() does
+function resolveUrl(url: string, base?: string) {
+  const pageUrl = typeof document !== 'undefined' ? document.baseURI : undefined;
+  return new URL(url, base ? new URL(base, pageUrl) : pageUrl).toString();
+}
+
+function getOffset(res: Response) {
+  const offset = parseInt(res.headers.get('Upload-Offset') || '', 10);
+  return isNaN(offset) ? null : offset;
+}
+
+/**
+ * Create a transport for `useDropzoneUpload` that sends files in chunks with the tus resumable upload protocol.
+ * See https://tus.io/protocols/resumable-upload.
+ *
+ * The upload URL of each file is stored under its fingerprint (path, size and last modified date by default),
+ * so if the same file is dropped again after a failure, the upload continues where the server left off.
+ *
+ * @param {TusOptions} options
+ * @param {string} options.endpoint The tus creation endpoint
+ * @param {number} [options.chunkSize=5242880] Max number of bytes sent per request
+ * @param {object} [options.headers] Extra headers for every request
+ * @param {Function} [options.metadata] Build the Upload-Metadata for a file, sends the name and type by default
+ * @param {Function} [options.fingerprint] Build the key the upload URL is stored under
+ * @param {TusUrlStorage} [options.storage] Storage for upload URLs, window.localStorage by default
+ * @param {boolean} [options.withCredentials=false] Send cookies with cross-origin requests
+ * @returns {UploadTransport}
+ */
+export function createTusTransport({
+  endpoint,
+  chunkSize = 5 * 1024 * 1024,
+  headers = {},
+  metadata = defaultMetadata,
+  fingerprint = tusFingerprint,
+  storage = defaultStorage(),
+  withCredentials = false,
+}: TusOptions): UploadTransport {
+  const request = async (url: string, init: RequestInit, signal: AbortSignal) => {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        ...init,
+        headers: { ...headers, 'Tus-Resumable': TUS_VERSION, ...init.headers },
+        credentials: withCredentials ? 'include' : 'same-origin',
+        signal,
+      });
+    } catch (e: any) {
+      if (e && e.name === 'AbortError') {
+        throw e;
+      }
+      throw createUploadError('Upload failed because of a network error', 0);
+    }
+    return res;
+  };
+
+  // Ask the server how much of a previous upload it already has
+  const resume = async (url: string, signal: AbortSignal) => {
+    const res = await request(url, { method: 'HEAD' }, signal);
+    if (res.ok) {
+      return getOffset(res);
+    }
+    if (res.status === 404 || res.status === 410 || res.status === 403) {
+      // The upload is gone, start over
+      return null;
+    }
+    throw createUploadError(`Resuming the upload failed with status ${res.status}`, res.status);
+  };
+
+  const create = async (file: File, signal: AbortSignal) => {
+    const res = await request(
+      resolveUrl(endpoint),
+      {
+        method: 'POST',
+        headers: {
+          'Upload-Length': `${file.size}`,
+          'Upload-Metadata': encodeMetadata(metadata(file)),
+        },
+      },
+      signal
+    );
+    const location = res.headers.get('Location');
+    if (!res.ok || !location) {
+      throw createUploadError(`Creating the upload failed with status ${res.status}`, res.status);
+    }
+    return resolveUrl(location, endpoint);
+  };
+
+  return async (file, { signal, onProgress }) => {
+    const key = fingerprint(file);
+    let url = storage.getItem(key);
+    let offset: number | null = null;
+
+    if (url) {
+      offset = await resume(url, signal);
+      if (offset === null) {
+        storage.removeItem(key);
+      }
+    }
+    if (offset === null) {
+      url = await create(file, signal);
+      storage.setItem(key, url);
+      offset = 0;
+    }
+
+    onProgress({ loaded: offset, total: file.size });
+
+    // Set after re-syncing the offset with the server, until a chunk is accepted
+    let resynced = false;
+    while (offset < file.size) {
+      const res = await request(
+        url!,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': `${offset}`,
+          },
+          body: file.slice(offset, offset + chunkSize),
+        },
+        signal
+      );
+
+      if (res.status === 404 || res.status === 410) {
+        storage.removeItem(key);
+      }
+      if (res.status === 409 && !resynced) {
+        // The offset does not match the one of the server, ask for it and continue from there
+        const serverOffset = await resume(url!, signal);
+        if (serverOffset === null) {
+          storage.removeItem(key);
+          throw createUploadError('The upload no longer exists on the server', res.status);
+        }
+        resynced = true;
+        offset = serverOffset;
+        onProgress({ loaded: offset, total: file.size });
+        continue;
+      }
+
+      const nextOffset = getOffset(res);
+      if (!res.ok || nextOffset === null) {
+        throw createUploadError(`Uploading a chunk failed with status ${res.status}`, res.status);
+      }
+      // A server that does not move forward would make us send the same chunk forever
+      if (nextOffset <= offset || nextOffset > file.size) {
+        throw createUploadError(
+          `Uploading a chunk failed because the server returned the offset ${nextOffset} after ${offset}`,
+          res.status
+        );
+      }
+
+      resynced = false;
+      offset = nextOffset;
+      onProgress({ loaded: offset, total: file.size });
+    }
+
+    storage.removeItem(key);
+    return { url };
+  };
+}
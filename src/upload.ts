@@ -0,0 +1,484 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'aborted';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  // Bytes sent so far and the total number of bytes to send
+  loaded: number;
+  total: number;
+  // Number of attempts made, including the current one
+  attempts: number;
+  response?: any;
+  error?: Error;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadTransportOptions {
+  signal: AbortSignal;
+  onProgress: (progress: UploadProgress) => void;
+}
+
+/**
+ * Sends a single file and resolves with the server response.
+ * It must reject with an AbortError when the signal is aborted.
+ */
+export type UploadTransport = (file: File, options: UploadTransportOptions) => Promise<any>;
+
+export interface UploadRequestOptions {
+  url: string | ((file: File) => string);
+  method?: string;
+  headers?: Record<string, string>;
+  // Name of the form field the file is sent in
+  fieldName?: string;
+  // Extra form fields sent along with the file
+  params?: Record<string, string> | ((file: File) => Record<string, string>);
+  withCredentials?: boolean;
+}
+
+export interface UploadOptions extends Partial<UploadRequestOptions> {
+  transport?: 'xhr' | 'fetch' | UploadTransport;
+  concurrency?: number;
+  retries?: number;
+  retryDelay?: number;
+  shouldRetry?: (error: UploadError, attempt: number) => boolean;
+  onUploadProgress?: (item: UploadItem) => void;
+  onUploadSuccess?: (item: UploadItem, response: any) => void;
+  onUploadError?: (item: UploadItem, error: Error) => void;
+}
+
+export interface UploadError extends Error {
+  // HTTP status of the response, 0 for network errors
+  status?: number;
+  response?: any;
+}
+
+export interface UploadState {
+  uploads: UploadItem[];
+  isUploading: boolean;
+  addFiles: (files: File[]) => void;
+  retry: (id: string) => void;
+  abort: (id: string) => void;
+  abortAll: () => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Create an upload error for a failed request
+ *
+ * @param {string} message
+ * @param {number} status
+ * @param {any} [response]
+ * @returns {UploadError}
+ */
+export function createUploadError(message: string, status: number, response?: any): UploadError {
+  return Object.assign(new Error(message), { status, response });
+}
+
+function createAbortError() {
+  return new DOMException('The upload was aborted', 'AbortError');
+}
+
+function isAbortError(e: any) {
+  return isObject(e) && e.name === 'AbortError';
+}
+
+function isObject(v: any) {
+  return typeof v === 'object' && v !== null;
+}
+
+function toFormData(file: File, { fieldName = 'file', params }: UploadRequestOptions) {
+  const body = new FormData();
+  const fields = typeof params === 'function' ? params(file) : params;
+  if (fields) {
+    Object.entries(fields).forEach(([key, value]) => body.append(key, value));
+  }
+  body.append(fieldName, file, file.name);
+  return body;
+}
+
+function requestUrl(file: File, { url }: UploadRequestOptions) {
+  return typeof url === 'function' ? url(file) : url;
+}
+
+function parseResponse(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Create a transport that sends each file as multipart/form-data with XMLHttpRequest.
+ * Unlike fetch, XHR reports upload progress.
+ *
+ * @param {UploadRequestOptions} options
+ * @returns {UploadTransport}
+ */
+export function createXhrTransport(options: UploadRequestOptions): UploadTransport {
+  const { method = 'POST', headers = {}, withCredentials = false } = options;
+
+  return (file, { signal, onProgress }) =>
+    new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+
+      xhr.open(method, requestUrl(file, options));
+      xhr.withCredentials = withCredentials;
+      Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress({ loaded: event.loaded, total: event.total });
+        }
+      };
+      xhr.onload = () => {
+        signal.removeEventListener('abort', onAbort);
+        const response = parseResponse(xhr.responseText);
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(response);
+        } else {
+          reject(createUploadError(`Upload failed with status ${xhr.status}`, xhr.status, response));
+        }
+      };
+      xhr.onerror = () => {
+        signal.removeEventListener('abort', onAbort);
+        reject(createUploadError('Upload failed because of a network error', 0));
+      };
+      xhr.onabort = () => {
+        signal.removeEventListener('abort', onAbort);
+        reject(createAbortError());
+      };
+
+      signal.addEventListener('abort', onAbort);
+      xhr.send(toFormData(file, options));
+    });
+}
+
+/**
+ * Create a transport that sends each file as multipart/form-data with fetch().
+ * Progress is only reported once the file is sent.
+ *
+ * @param {UploadRequestOptions} options
+ * @returns {UploadTransport}
+ */
+export function createFetchTransport(options: UploadRequestOptions): UploadTransport {
+  const { method = 'POST', headers = {}, withCredentials = false } = options;
+
+  return async (file, { signal, onProgress }) => {
+    let res: Response;
+    try {
+      res = await fetch(requestUrl(file, options), {
+        method,
+        headers,
+        body: toFormData(file, options),
+        credentials: withCredentials ? 'include' : 'same-origin',
+        signal,
+      });
+    } catch (e) {
+      if (isAbortError(e)) {
+        throw e;
+      }
+      throw createUploadError('Upload failed because of a network error', 0);
+    }
+
+    const response = parseResponse(await res.text());
+    if (!res.ok) {
+      throw createUploadError(`Upload failed with status ${res.status}`, res.status, response);
+    }
+
+    onProgress({ loaded: file.size, total: file.size });
+    return response;
+  };
+}
+
+// Retry network errors, timeouts, rate limiting and server errors, but not client errors
+function defaultShouldRetry(error: UploadError) {
+  const { status } = error;
+  return status === undefined || status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort);
+  });
+}
+
+let nextUploadId = 0;
+
+const defaultProps = {
+  method: 'POST',
+  fieldName: 'file',
+  transport: 'xhr' as const,
+  concurrency: 3,
+  retries: 3,
+  retryDelay: 1000,
+  withCredentials: false,
+};
+
+/**
+ * A React hook that uploads files, e.g. the accepted files of a dropzone.
+ *
+ * ```jsx
+ * function MyDropzone() {
+ *   const {uploads, addFiles, abort} = useDropzoneUpload({url: '/upload'});
+ *   const {getRootProps, getInputProps} = useDropzone({onDropAccepted: addFiles});
+ *   // render the dropzone and the uploads
+ * }
+ * ```
+ *
+ * @param {object} props
+ * @param {string|Function} [props.url] The endpoint to send files to, or a fn that returns it for a file
+ * @param {string} [props.method='POST'] The HTTP method
+ * @param {object} [props.headers] Extra request headers
+ * @param {string} [props.fieldName='file'] The form field the file is sent in
+ * @param {object|Function} [props.params] Extra form fields
+ * @param {boolean} [props.withCredentials=false] Send cookies with cross-origin requests
+ * @param {'xhr'|'fetch'|Function} [props.transport='xhr'] How files are sent. A custom transport
+ * receives the file with an AbortSignal and a progress cb and resolves with the response.
+ * @param {number} [props.concurrency=3] Max number of files uploading at the same time
+ * @param {number} [props.retries=3] Max number of retries for a failed upload
+ * @param {number} [props.retryDelay=1000] Delay (in ms) before the first retry, doubled on every following retry
+ * @param {Function} [props.shouldRetry] Decide if a failed upload is retried, by default network and server errors are
+ * @param {Function} [props.onUploadProgress] Cb for when an upload makes progress
+ * @param {Function} [props.onUploadSuccess] Cb for when an upload is done
+ * @param {Function} [props.onUploadError] Cb for when an upload failed and will not be retried
+ *
+ * @returns {UploadState}
+ */
+export function useDropzoneUpload(props: UploadOptions = {}): UploadState {
+  const {
+    url,
+    method,
+    headers,
+    fieldName,
+    params,
+    withCredentials,
+    transport,
+    concurrency,
+    retries,
+    retryDelay,
+    shouldRetry = defaultShouldRetry,
+    onUploadProgress,
+    onUploadSuccess,
+    onUploadError,
+  } = {
+    ...defaultProps,
+    ...props,
+  };
+
+  const send: UploadTransport = useMemo(() => {
+    if (typeof transport === 'function') {
+      return transport;
+    }
+    if (!url) {
+      return () => Promise.reject(new Error('Cannot upload files because no url was provided.'));
+    }
+    const options = { url, method, headers, fieldName, params, withCredentials };
+    return transport === 'fetch' ? createFetchTransport(options) : createXhrTransport(options);
+  }, [transport, url, method, headers, fieldName, params, withCredentials]);
+
+  const [uploads, dispatch] = useReducer(reducer, []);
+
+  // The abort controllers of the uploads in progress (including the ones waiting for a retry)
+  const activeRef = useRef(new Map<string, AbortController>());
+
+  // Keep the latest props for the uploads that are already running
+  const propsRef = useRef({ send, retries, retryDelay, shouldRetry, onUploadProgress, onUploadSuccess, onUploadError });
+  propsRef.current = { send, retries, retryDelay, shouldRetry, onUploadProgress, onUploadSuccess, onUploadError };
+
+  const start = useCallback((item: UploadItem) => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    activeRef.current.set(item.id, controller);
+
+    const update = (changes: Partial<UploadItem>) => {
+      item = { ...item, ...changes };
+      dispatch({ type: 'update', id: item.id, changes });
+      return item;
+    };
+
+    const run = async () => {
+      for (let attempt = 1; ; attempt++) {
+        update({ status: 'uploading', attempts: item.attempts + 1, loaded: 0, error: undefined });
+
+        try {
+          const response = await propsRef.current.send(item.file, {
+            signal,
+            onProgress: ({ loaded, total }) => {
+              const { onUploadProgress } = propsRef.current;
+              const updated = update({ loaded, total });
+              if (onUploadProgress) {
+                onUploadProgress(updated);
+              }
+            },
+          });
+          const done = update({ status: 'done', loaded: item.total, response });
+          const { onUploadSuccess } = propsRef.current;
+          if (onUploadSuccess) {
+            onUploadSuccess(done, response);
+          }
+          return;
+        } catch (e: any) {
+          if (signal.aborted || isAbortError(e)) {
+            update({ status: 'aborted' });
+            return;
+          }
+
+          const { retries, retryDelay, shouldRetry, onUploadError } = propsRef.current;
+          if (attempt <= retries && shouldRetry(e, attempt)) {
+            update({ status: 'queued', error: e });
+            try {
+              await wait(retryDelay * Math.pow(2, attempt - 1), signal);
+            } catch {
+              update({ status: 'aborted' });
+              return;
+            }
+            continue;
+          }
+
+          const failed = update({ status: 'failed', error: e });
+          if (onUploadError) {
+            onUploadError(failed, e);
+          }
+          return;
+        }
+      }
+    };
+
+    run().finally(() => {
+      if (activeRef.current.get(item.id) === controller) {
+        activeRef.current.delete(item.id);
+      }
+      // Free the slot for the next queued upload
+      dispatch({ type: 'tick' });
+    });
+  }, []);
+
+  // Start queued uploads whenever a slot is free
+  useEffect(() => {
+    let slots = concurrency - activeRef.current.size;
+    uploads.forEach((item: UploadItem) => {
+      if (slots > 0 && item.status === 'queued' && !activeRef.current.has(item.id)) {
+        slots--;
+        start(item);
+      }
+    });
+  }, [uploads, concurrency, start]);
+
+  // Abort everything when the component unmounts
+  useEffect(() => {
+    const active = activeRef.current;
+    return () => {
+      active.forEach((controller) => controller.abort());
+      active.clear();
+    };
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const items = files.map((file) => ({
+      id: `upload-${++nextUploadId}`,
+      file,
+      status: 'queued' as const,
+      loaded: 0,
+      total: file.size,
+      attempts: 0,
+    }));
+    dispatch({ type: 'add', items });
+  }, []);
+
+  const abort = useCallback((id: string) => {
+    const controller = activeRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      dispatch({ type: 'update', id, changes: { status: 'aborted' }, only: 'queued' });
+    }
+  }, []);
+
+  const abortAll = useCallback(() => {
+    activeRef.current.forEach((controller) => controller.abort());
+    dispatch({ type: 'abortQueued' });
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    dispatch({ type: 'retry', id });
+  }, []);
+
+  const remove = useCallback(
+    (id: string) => {
+      abort(id);
+      dispatch({ type: 'remove', id });
+    },
+    [abort]
+  );
+
+  const clear = useCallback(() => {
+    abortAll();
+    dispatch({ type: 'clear' });
+  }, [abortAll]);
+
+  return {
+    uploads,
+    isUploading: uploads.some((item: UploadItem) => item.status === 'queued' || item.status === 'uploading'),
+    addFiles,
+    retry,
+    abort,
+    abortAll,
+    remove,
+    clear,
+  };
+}
+
+/**
+ * @param {UploadItem[]} state
+ * @param {{type: string}} action
+ * @returns {UploadItem[]}
+ */
+function reducer(state: UploadItem[], action: any): UploadItem[] {
+  switch (action.type) {
+    case 'add':
+      return [...state, ...action.items];
+    case 'update':
+      return state.map((item) =>
+        item.id === action.id && (!action.only || item.status === action.only) ? { ...item, ...action.changes } : item
+      );
+    case 'retry':
+      return state.map((item) =>
+        item.id === action.id && (item.status === 'failed' || item.status === 'aborted')
+          ? { ...item, status: 'queued', loaded: 0, error: undefined }
+          : item
+      );
+    case 'abortQueued':
+      return state.map((item) => (item.status === 'queued' ? { ...item, status: 'aborted' } : item));
+    case 'remove':
+      return state.filter((item) => item.id !== action.id);
+    case 'clear':
+      return [];
+    case 'tick':
+      return [...state];
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Download a dropped URL, e.g. through a proxy for servers that do not allow cross-origin requests.
+ * A File can be returned to set the name of the file. Downloads larger than `maxSize` bytes should be stopped.
+ */
+export type UrlFetcher = (url: string, signal?: AbortSignal, maxSize?: number) => Promise<Blob>;
+
+// How many URLs are downloaded at the same time
+export const URL_FETCH_CONCURRENCY = 4;
+
+function createTooLargeError(maxSize: number) {
+  return new Error(`The file is larger than the max size of ${maxSize} bytes`);
+}
+
+/**
+ * The default fetcher, which downloads the URL with a plain fetch() request.
+ * The download is stopped as soon as it is known to be larger than `maxSize`,
+ * from its Content-Length or from the bytes received so far.
+ *
+ * @param {string} url
+ * @param {AbortSignal} [signal]
+ * @param {number} [maxSize]
+ * @returns {Promise<Blob>}
+ */
+export async function fetchUrl(url: string, signal?: AbortSignal, maxSize = Infinity) {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+
+  const length = parseInt(response.headers.get('Content-Length') || '', 10);
+  if (length > maxSize) {
+    if (response.body) {
+      response.body.cancel().catch(() => {});
+    }
+    throw createTooLargeError(maxSize);
+  }
+  if (!isFinite(maxSize) || !response.body) {
+    return response.blob();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxSize) {
+      reader.cancel().catch(() => {});
+      throw createTooLargeError(maxSize);
+    }
+    chunks.push(value);
+  }
+  return new Blob(chunks, { type: response.headers.get('Content-Type') || '' });
+}
+
+/**
+ * Map the items with an async function, running at most `limit` calls at the same time.
+ * The results are in the order of the items.
+ *
+ * @param {Array} items
+ * @param {number} limit
+ * @param {Function} fn
+ * @returns {Promise<Array>}
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Pages and scripts cannot be turned into files, only the resources that can be fetched
+const FETCHABLE_URL = /^(https?|data|blob):/i;
+
+/**
+ * Parse a text/uri-list, see https://www.rfc-editor.org/rfc/rfc2483#section-5.
+ *
+ * @param {string} list
+ * @returns {string[]}
+ */
+export function parseUriList(list: string) {
+  return list
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && line[0] !== '#');
+}
+
+/**
+ * Get the sources of the images in an HTML fragment, e.g. the one a browser puts in a drag of an image.
+ *
+ * @param {string} html
+ * @returns {string[]}
+ */
+export function imageSourcesFromHtml(html: string) {
+  if (typeof DOMParser === 'undefined') {
+    return [];
+  }
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('img[src]')).map((img) => img.getAttribute('src')!);
+}
+
+/**
+ * Check if an HTML fragment has text besides its images, e.g. a selection of a page rather than a dragged image.
+ *
+ * @param {string} html
+ * @returns {boolean}
+ */
+export function htmlHasText(html: string) {
+  if (!html || typeof DOMParser === 'undefined') {
+    return false;
+  }
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').trim().length > 0;
+}
+
+/**
+ * Get the URLs of the resources dragged from another page, from its `text/uri-list` and the images of its `text/html`.
+ * The data is only available on drop and paste.
+ *
+ * @param {DataTransfer} dt
+ * @param {boolean} [withImages=true] If false, the images of the `text/html` are left out
+ * @returns {string[]}
+ */
+export function getDroppedUrls(dt: DataTransfer, withImages = true) {
+  const images = withImages ? imageSourcesFromHtml(dt.getData('text/html')) : [];
+  const urls = [...parseUriList(dt.getData('text/uri-list')), ...images];
+  return urls.filter((url, i) => FETCHABLE_URL.test(url) && urls.indexOf(url) === i);
+}
+
+/**
+ * Get a file name for a downloaded URL, from the last part of its path.
+ * The subtype of the file is used as the extension if the name does not have one, e.g. `photo.jpeg`.
+ *
+ * @param {string} url
+ * @param {string} [type]
+ * @returns {string}
+ */
+export function fileNameFromUrl(url: string, type?: string) {
+  let name = '';
+  try {
+    const { protocol, pathname } = new URL(url);
+    // The paths of data: and blob: URLs are not names
+    if (protocol === 'http:' || protocol === 'https:') {
+      const path = pathname.replace(/\/+$/, '');
+      name = decodeURIComponent(path.slice(path.lastIndexOf('/') + 1));
+    }
+  } catch {
+    name = '';
+  }
+
+  const base = name || 'download';
+  if (base.lastIndexOf('.') > 0 || !type) {
+    return base;
+  }
+  const subtype = type.replace(/^[^/]*\//, '').replace(/[+;].*$/, '');
+  return subtype ? `${base}.${subtype}` : base;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allFilesAccepted,
+  getDragRejections,
+  FILE_INVALID_TYPE,
+  TOO_MANY_FILES,
+  TOTAL_SIZE_TOO_LARGE,
+} from '../src/dropzone';
+
+// What the browser exposes of a dragged file until it is dropped
+function draggedFile(type: string) {
+  return { kind: 'file', type } as DataTransferItem;
+}
+
+const errorCodes = (rejections: ReturnType<typeof getDragRejections>) =>
+  rejections.map(({ errors }) => errors.map(({ code }) => code));
+
+describe('getDragRejections()', () => {
+  it('rejects the items of a type that is not accepted', () => {
+    const png = draggedFile('image/png');
+    const pdf = draggedFile('application/pdf');
+    const rejections = getDragRejections({ files: [png, pdf], accept: { 'image/*': [] } });
+    expect(rejections).toHaveLength(1);
+    expect(rejections[0].item).toBe(pdf);
+    expect(errorCodes(rejections)).toEqual([[FILE_INVALID_TYPE]]);
+  });
+
+  it('does not check the type of a dragged link', () => {
+    const link = { kind: 'string', type: '' } as const;
+    expect(getDragRejections({ files: [link], accept: { 'image/*': [] } })).toEqual([]);
+  });
+
+  it('rejects all the items if there are too many', () => {
+    const files = [draggedFile('image/png'), draggedFile('image/png')];
+    expect(errorCodes(getDragRejections({ files, maxFiles: 2 }))).toEqual([]);
+    expect(errorCodes(getDragRejections({ files, multiple: false }))).toEqual([[TOO_MANY_FILES], [TOO_MANY_FILES]]);
+
+    const existingFiles = [new File(['x'], 'a.png', { type: 'image/png' })];
+    expect(errorCodes(getDragRejections({ files, maxFiles: 2, existingFiles }))).toEqual([
+      [TOO_MANY_FILES],
+      [TOO_MANY_FILES],
+    ]);
+  });
+
+  it('applies the maxFiles of the accept rules', () => {
+    const png = draggedFile('image/png');
+    const pdfs = [draggedFile('application/pdf'), draggedFile('application/pdf')];
+    const rejections = getDragRejections({
+      files: [png, ...pdfs],
+      accept: { 'image/png': [], 'application/pdf': { maxFiles: 1 } },
+    });
+    expect(rejections.map(({ item }) => item)).toEqual(pdfs);
+    expect(rejections[0].errors[0]).toMatchObject({ code: TOO_MANY_FILES, rule: 'application/pdf' });
+  });
+
+  it('rejects the items with validator errors, but not the pending ones', () => {
+    const files = [draggedFile('image/png'), draggedFile('image/png'), draggedFile('image/png')];
+    const error = { code: 'custom', message: 'Not allowed' };
+    const pending = new Promise<null>(() => undefined);
+    const rejections = getDragRejections({
+      files,
+      validationResults: [error, null, pending as any],
+    });
+    expect(rejections).toEqual([{ item: files[0], errors: [error] }]);
+  });
+
+  it('only checks the size of File objects', () => {
+    expect(getDragRejections({ files: [draggedFile('image/png')], maxTotalSize: 1 })).toEqual([]);
+
+    const files = [new File(['abc'], 'a.txt'), new File(['def'], 'b.txt')];
+    expect(errorCodes(getDragRejections({ files, maxTotalSize: 5 }))).toEqual([
+      [TOTAL_SIZE_TOO_LARGE],
+      [TOTAL_SIZE_TOO_LARGE],
+    ]);
+  });
+});
+
+describe('allFilesAccepted()', () => {
+  it('runs the validator if no validation results are given', () => {
+    const files = [draggedFile('image/png')];
+    expect(allFilesAccepted({ files, accept: { 'image/*': [] } })).toBe(true);
+    expect(allFilesAccepted({ files, accept: { 'application/pdf': [] } })).toBe(false);
+    expect(allFilesAccepted({ files, validator: () => ({ code: 'custom', message: 'No' }) })).toBe(false);
+    expect(
+      allFilesAccepted({ files, validator: () => ({ code: 'custom', message: 'No' }), validationResults: [null] })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { act, cleanup, createEvent, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DropzoneOptions, useDropzone } from '../src/dropzone';
+import { DropzoneProvider } from '../src/provider';
+
+afterEach(cleanup);
+
+// Shows the names of the accepted files, so that the tests can tell which zone got them
+function Zone({ name, children, ...options }: DropzoneOptions & { name: string; children?: React.ReactNode }) {
+  const { getRootProps, getInputProps, acceptedFiles } = useDropzone(options);
+  return (
+    <div {...getRootProps()} data-testid={name}>
+      <input {...getInputProps()} />
+      <span data-testid={`${name}-files`}>{acceptedFiles.map((file) => file.name).join(',')}</span>
+      {children}
+    </div>
+  );
+}
+
+// Skip reading the data transfer, its items are not implemented in jsdom
+const getDroppedFiles = (event: any) => Promise.resolve(Array.from(event.dataTransfer.files) as File[]);
+
+function createFile(name: string) {
+  return new File(['hello'], name, { type: 'text/plain' });
+}
+
+function drop(element: HTMLElement, files: File[]) {
+  const event = createEvent.drop(element, { dataTransfer: { files, types: ['Files'], items: [] } });
+  fireEvent(element, event);
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('useDropzone()', () => {
+  it('drops the files of an older drop that are still being read', async () => {
+    const reads = [deferred<File[]>(), deferred<File[]>()];
+    let calls = 0;
+    const onDrop = vi.fn();
+    render(<Zone name="zone" getFilesFromEvent={() => reads[calls++].promise} onDrop={onDrop} />);
+
+    drop(screen.getByTestId('zone'), [createFile('first.txt')]);
+    drop(screen.getByTestId('zone'), [createFile('second.txt')]);
+    await act(async () => {
+      reads[1].resolve([createFile('second.txt')]);
+      reads[0].resolve([createFile('first.txt')]);
+    });
+
+    await waitFor(() => expect(screen.getByTestId('zone-files').textContent).toBe('second.txt'));
+    expect(onDrop).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the files of the parent zone when files are dropped on a nested zone', async () => {
+    const onParentDrop = vi.fn();
+    render(
+      <DropzoneProvider>
+        <Zone name="parent" getFilesFromEvent={getDroppedFiles} onDrop={onParentDrop}>
+          <Zone name="child" getFilesFromEvent={getDroppedFiles} />
+        </Zone>
+      </DropzoneProvider>
+    );
+
+    drop(screen.getByTestId('parent'), [createFile('parent.txt')]);
+    await waitFor(() => expect(screen.getByTestId('parent-files').textContent).toBe('parent.txt'));
+
+    drop(screen.getByTestId('child'), [createFile('child.txt')]);
+    await waitFor(() => expect(screen.getByTestId('child-files').textContent).toBe('child.txt'));
+    expect(screen.getByTestId('parent-files').textContent).toBe('parent.txt');
+    expect(onParentDrop).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets text be pasted into an input of the zone', async () => {
+    const onDrop = vi.fn();
+    render(
+      <Zone name="zone" textAsFile onDrop={onDrop}>
+        <input data-testid="comment" />
+      </Zone>
+    );
+    const clipboardData = { types: ['text/plain'], items: [], files: [], getData: () => 'hello' };
+
+    const event = createEvent.paste(screen.getByTestId('comment'), { clipboardData });
+    fireEvent(screen.getByTestId('comment'), event);
+    expect(event.defaultPrevented).toBe(false);
+
+    // Outside of the input, the text is turned into a file
+    const rootEvent = createEvent.paste(screen.getByTestId('zone'), { clipboardData });
+    fireEvent(screen.getByTestId('zone'), rootEvent);
+    expect(rootEvent.defaultPrevented).toBe(true);
+    await waitFor(() => expect(onDrop).toHaveBeenCalledTimes(1));
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { fileContentAccepted, FileWithPath, FILE_TYPE_MISMATCH } from '../src/dropzone';
+import { mimeTypeAliases, mimeTypeFromBytes } from '../src/file-type';
+
+function bytes(...parts: (string | number[])[]) {
+  const values: number[] = [];
+  parts.forEach((part) => {
+    if (typeof part === 'string') {
+      values.push(...part.split('').map((c) => c.charCodeAt(0)));
+    } else {
+      values.push(...part);
+    }
+  });
+  return new Uint8Array(values);
+}
+
+// Zero bytes up to the given length
+function padded(data: Uint8Array, length: number) {
+  const result = new Uint8Array(Math.max(length, data.length));
+  result.set(data);
+  return result;
+}
+
+function sniffedFile(name: string, type: string, sniffedType: string) {
+  const file = new File([], name, { type });
+  Object.defineProperty(file, 'sniffedType', { value: sniffedType });
+  return file as FileWithPath;
+}
+
+describe('mimeTypeFromBytes()', () => {
+  it('detects common formats from their signatures', () => {
+    expect(mimeTypeFromBytes(bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(mimeTypeFromBytes(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(mimeTypeFromBytes(bytes('GIF89a'))).toBe('image/gif');
+    expect(mimeTypeFromBytes(bytes('RIFF', [0, 0, 0, 0], 'WEBP'))).toBe('image/webp');
+    expect(mimeTypeFromBytes(bytes('RIFF', [0, 0, 0, 0], 'WAVE'))).toBe('audio/wav');
+    expect(mimeTypeFromBytes(bytes('%PDF-1.7'))).toBe('application/pdf');
+    expect(mimeTypeFromBytes(bytes([0x1f, 0x8b, 0x08]))).toBe('application/gzip');
+    expect(mimeTypeFromBytes(padded(bytes('MThd', [0, 0, 0, 6]), 14))).toBe('audio/midi');
+  });
+
+  it('uses the extension to tell container formats apart', () => {
+    const zip = bytes('PK', [0x03, 0x04]);
+    expect(mimeTypeFromBytes(zip, 'archive.zip')).toBe('application/zip');
+    expect(mimeTypeFromBytes(zip, 'report.DOCX')).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    expect(mimeTypeFromBytes(bytes([0x1a, 0x45, 0xdf, 0xa3]), 'clip.webm')).toBe('video/webm');
+    expect(mimeTypeFromBytes(bytes([0x1a, 0x45, 0xdf, 0xa3]), 'clip.mkv')).toBe('video/x-matroska');
+  });
+
+  it('detects ISO base media files by their major brand', () => {
+    const ftyp = (brand: string) => padded(bytes([0, 0, 0, 0x18], 'ftyp', brand), 24);
+    expect(mimeTypeFromBytes(ftyp('M4A '))).toBe('audio/mp4');
+    expect(mimeTypeFromBytes(ftyp('isom'))).toBe('video/mp4');
+    expect(mimeTypeFromBytes(ftyp('heic'))).toBe('image/heic');
+    expect(mimeTypeFromBytes(ftyp('abcd'))).toBeUndefined();
+  });
+
+  it('does not detect a format from a signature that is too weak', () => {
+    // Text that happens to start like a BMP, an ICO or a Windows executable
+    expect(mimeTypeFromBytes(bytes('BMW 320i'))).toBeUndefined();
+    expect(mimeTypeFromBytes(bytes([0, 0, 1, 0]))).toBeUndefined();
+    expect(mimeTypeFromBytes(bytes('MZ is not an executable'))).toBeUndefined();
+    expect(mimeTypeFromBytes(bytes('hello world'))).toBeUndefined();
+    expect(mimeTypeFromBytes(new Uint8Array(0))).toBeUndefined();
+  });
+});
+
+describe('mimeTypeAliases()', () => {
+  it('returns the type followed by its other names', () => {
+    expect(mimeTypeAliases('application/zip')).toEqual([
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/x-zip',
+    ]);
+    expect(mimeTypeAliases('application/gzip')).toContain('application/x-gzip');
+    expect(mimeTypeAliases('application/vnd.rar')).toContain('application/x-rar-compressed');
+    expect(mimeTypeAliases('audio/midi')).toContain('audio/x-midi');
+    expect(mimeTypeAliases('image/png')).toEqual(['image/png']);
+  });
+});
+
+describe('fileContentAccepted()', () => {
+  it('accepts a detected type whose other name is accepted', () => {
+    const cases = [
+      ['archive.zip', 'application/x-zip-compressed', 'application/zip'],
+      ['favicon.ico', 'image/x-icon', 'image/vnd.microsoft.icon'],
+      ['song.m4a', 'audio/x-m4a', 'audio/mp4'],
+      ['sound.wav', 'audio/x-wav', 'audio/wav'],
+    ];
+    cases.forEach(([name, type, sniffedType]) => {
+      expect(fileContentAccepted(sniffedFile(name, type, sniffedType), type)).toEqual([true, null]);
+    });
+  });
+
+  it('accepts an alias of the detected type as the declared type', () => {
+    const file = sniffedFile('archive.zip', 'application/x-zip-compressed', 'application/zip');
+    expect(fileContentAccepted(file, '.zip')).toEqual([true, null]);
+  });
+
+  it('rejects contents that do not match the accepted types', () => {
+    const file = sniffedFile('photo.png', 'image/png', 'application/zip');
+    const [accepted, error] = fileContentAccepted(file, 'image/png,.png');
+    expect(accepted).toBe(false);
+    expect(error).toMatchObject({ code: FILE_TYPE_MISMATCH });
+  });
+});
@@ -0,0 +1,69 @@
+import { Blob as NodeBlob } from 'buffer';
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { hashFile, HashProgress } from '../src/hash';
+
+// The Blobs of jsdom cannot be read with arrayBuffer()
+function createFile(content: string | Uint8Array) {
+  return new NodeBlob([content]) as unknown as File;
+}
+
+function digest(algorithm: string, content: string | Uint8Array) {
+  return createHash(algorithm).update(content).digest('hex');
+}
+
+// Long enough to span several 64 byte blocks, with a length that needs a second padding block
+const content = Uint8Array.from({ length: 1000 }, (_, i) => (i * 31) % 256);
+
+describe('hashFile()', () => {
+  it('computes SHA-256 by default', async () => {
+    await expect(hashFile(createFile('abc'))).resolves.toEqual({
+      'sha-256': 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    });
+  });
+
+  it('computes the digests of empty files', async () => {
+    await expect(hashFile(createFile(''), { algorithms: ['sha-256', 'sha-1', 'md5'] })).resolves.toEqual({
+      'sha-256': digest('sha256', ''),
+      'sha-1': digest('sha1', ''),
+      md5: digest('md5', ''),
+    });
+  });
+
+  it('gives the same digests whatever the chunk size', async () => {
+    const expected = {
+      'sha-256': digest('sha256', content),
+      'sha-1': digest('sha1', content),
+      md5: digest('md5', content),
+    };
+    for (const chunkSize of [1, 7, 64, 1000, 4096]) {
+      await expect(
+        hashFile(createFile(content), { algorithms: ['sha-256', 'sha-1', 'md5'], chunkSize })
+      ).resolves.toEqual(expected);
+    }
+  });
+
+  it('reports the progress after every chunk', async () => {
+    const progress: HashProgress[] = [];
+    await hashFile(createFile(content), { chunkSize: 400, onProgress: (p) => progress.push(p) });
+    expect(progress).toEqual([
+      { bytesHashed: 400, totalBytes: 1000 },
+      { bytesHashed: 800, totalBytes: 1000 },
+      { bytesHashed: 1000, totalBytes: 1000 },
+    ]);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const promise = hashFile(createFile(content), {
+      chunkSize: 100,
+      signal: controller.signal,
+      onProgress: ({ bytesHashed }) => {
+        if (bytesHashed === 200) {
+          controller.abort();
+        }
+      },
+    });
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { COMMON_IGNORE_PATTERNS, isIgnored, isIgnoredPath, parseIgnorePatterns } from '../src/ignore';
+
+describe('parseIgnorePatterns()', () => {
+  it('skips blank lines and comments', () => {
+    const rules = parseIgnorePatterns('# build output\n\n*.log\r\n');
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({ base: '', negate: false, dirOnly: false });
+  });
+
+  it('parses negated and folder only patterns', () => {
+    const [negated, folder] = parseIgnorePatterns(['!keep.log', 'build/']);
+    expect(negated).toMatchObject({ negate: true, dirOnly: false });
+    expect(folder).toMatchObject({ negate: false, dirOnly: true });
+  });
+});
+
+describe('isIgnored()', () => {
+  it('matches a pattern without a slash in any folder', () => {
+    const rules = parseIgnorePatterns(['*.log']);
+    expect(isIgnored(rules, 'debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'logs/debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'debug.log.txt', false)).toBe(false);
+  });
+
+  it('anchors a pattern with a leading or inner slash to the base', () => {
+    const rules = parseIgnorePatterns(['/build', 'doc/frotz']);
+    expect(isIgnored(rules, 'build', true)).toBe(true);
+    expect(isIgnored(rules, 'src/build', true)).toBe(false);
+    expect(isIgnored(rules, 'doc/frotz', false)).toBe(true);
+    expect(isIgnored(rules, 'a/doc/frotz', false)).toBe(false);
+  });
+
+  it('only matches folders with a trailing slash', () => {
+    const rules = parseIgnorePatterns(['cache/']);
+    expect(isIgnored(rules, 'cache', true)).toBe(true);
+    expect(isIgnored(rules, 'cache', false)).toBe(false);
+  });
+
+  it('does not let wildcards match a slash, except for **', () => {
+    const rules = parseIgnorePatterns(['src/*.tmp', '**/out', 'docs/**']);
+    expect(isIgnored(rules, 'src/a.tmp', false)).toBe(true);
+    expect(isIgnored(rules, 'src/lib/a.tmp', false)).toBe(false);
+    expect(isIgnored(rules, 'out', true)).toBe(true);
+    expect(isIgnored(rules, 'a/b/out', true)).toBe(true);
+    expect(isIgnored(rules, 'docs/a/b.md', false)).toBe(true);
+    expect(isIgnored(rules, 'docs', true)).toBe(false);
+  });
+
+  it('lets the last matching rule win', () => {
+    const rules = parseIgnorePatterns(['*.log', '!keep.log']);
+    expect(isIgnored(rules, 'debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'keep.log', false)).toBe(false);
+    expect(isIgnored(parseIgnorePatterns(['!keep.log', '*.log']), 'keep.log', false)).toBe(true);
+  });
+
+  it('only applies the rules of a nested .gitignore inside its folder', () => {
+    const rules = parseIgnorePatterns('*.tmp\n/local', 'packages/app');
+    expect(isIgnored(rules, 'packages/app/a.tmp', false)).toBe(true);
+    expect(isIgnored(rules, 'packages/app/src/a.tmp', false)).toBe(true);
+    expect(isIgnored(rules, 'packages/app/local', true)).toBe(true);
+    expect(isIgnored(rules, 'a.tmp', false)).toBe(false);
+    expect(isIgnored(rules, 'packages/lib/a.tmp', false)).toBe(false);
+  });
+});
+
+describe('isIgnoredPath()', () => {
+  it('ignores the files inside an ignored folder', () => {
+    const rules = parseIgnorePatterns(COMMON_IGNORE_PATTERNS);
+    expect(isIgnoredPath(rules, 'node_modules/react/index.js')).toBe(true);
+    expect(isIgnoredPath(rules, 'project/.git/config')).toBe(true);
+    expect(isIgnoredPath(rules, 'photos/.DS_Store')).toBe(true);
+    expect(isIgnoredPath(rules, 'notes/#draft#')).toBe(true);
+    expect(isIgnoredPath(rules, 'photos/cat.jpg')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatFileError,
+  getInvalidTypeRejectionErr,
+  getTooLargeRejectionErr,
+  getTooManyFilesRejectionErr,
+  FILE_TOO_LARGE,
+} from '../src/dropzone';
+import { formatBytes, formatFileType, formatFileTypes, formatList } from '../src/messages';
+
+const file = new File(['hello'], 'hello.txt', { type: 'text/plain' });
+
+describe('formatBytes()', () => {
+  it('uses the largest unit that keeps the number at or above 1', () => {
+    expect(formatBytes(0)).toBe('0 B');
+    expect(formatBytes(1023)).toBe('1,023 B');
+    expect(formatBytes(1024)).toBe('1 KB');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(10 * 1024 * 1024)).toBe('10 MB');
+    expect(formatBytes(2 * 1024 ** 5)).toBe('2,048 TB');
+  });
+
+  it('formats the number for the locale', () => {
+    expect(formatBytes(1536, 'de')).toBe('1,5 KB');
+  });
+
+  it('does not convert an unlimited size', () => {
+    expect(formatBytes(Infinity)).toBe('Infinity');
+  });
+});
+
+describe('formatFileType()', () => {
+  it('names types and extensions', () => {
+    expect(formatFileType('image/*')).toBe('images');
+    expect(formatFileType('application/pdf')).toBe('PDF');
+    expect(formatFileType('image/svg+xml')).toBe('SVG');
+    expect(formatFileType('application/vnd.rar')).toBe('RAR');
+    expect(formatFileType('application/x-7z-compressed')).toBe('7z-compressed');
+    expect(formatFileType(' .DOCX')).toBe('DOCX');
+    expect(formatFileType('application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe(
+      'Word documents'
+    );
+  });
+});
+
+describe('formatFileTypes()', () => {
+  it('lists the accepted types without repeating the same name', () => {
+    expect(formatFileTypes('image/png,.png,application/pdf')).toBe('PNG or PDF');
+    expect(formatFileTypes(['application/msword', '.doc', 'application/vnd.ms-excel'])).toBe(
+      'Word documents, DOC, or Excel spreadsheets'
+    );
+  });
+
+  it('joins the list for the locale', () => {
+    expect(formatList(['PNG', 'PDF'], 'de')).toBe('PNG oder PDF');
+    expect(formatList(['a', 'b', 'c'], 'en', 'conjunction')).toBe('a, b, and c');
+  });
+});
+
+describe('formatFileError()', () => {
+  it('keeps the default message if none is given for the code', () => {
+    const error = getTooLargeRejectionErr(1024, 2048);
+    expect(error.message).toBe('File is larger than 1 KB');
+    expect(formatFileError(error, file, {})).toBe(error);
+  });
+
+  it('fills a template with the formatted params', () => {
+    const messages = {
+      [FILE_TOO_LARGE]: '{actual} is over {limit} ({unknown})',
+      'file-invalid-type': 'Only {limit}, not {actual}',
+      'too-many-files': 'At most {limit} files, got {actual}',
+    };
+    expect(formatFileError(getTooLargeRejectionErr(1024, 1536), file, messages)).toEqual({
+      code: FILE_TOO_LARGE,
+      message: '1.5 KB is over 1 KB ({unknown})',
+      params: { limit: 1024, actual: 1536 },
+    });
+    expect(formatFileError(getInvalidTypeRejectionErr('image/*,.pdf', 'text/plain'), file, messages).message).toBe(
+      'Only images or PDF, not text files'
+    );
+    expect(formatFileError(getTooManyFilesRejectionErr(1000, 1200), file, messages, 'de').message).toBe(
+      'At most 1.000 files, got 1.200'
+    );
+  });
+
+  it('passes the raw params and the file to a message function', () => {
+    const messages = {
+      [FILE_TOO_LARGE]: (params: { limit?: number }, f: File) => `${f.name}: ${params.limit}`,
+    };
+    expect(formatFileError(getTooLargeRejectionErr(1024, 2048), file, messages).message).toBe('hello.txt: 1024');
+  });
+});
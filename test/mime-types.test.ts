@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MIME_DB } from '../src/mime-db';
+import { getExtensions, getMimeType, registerMimeTypes, unregisterMimeTypes } from '../src/mime-types';
+
+afterEach(() => {
+  unregisterMimeTypes(['tar.gz', 'gz', 'step', ...Object.keys(MIME_DB)]);
+});
+
+describe('getExtensions()', () => {
+  it('returns the extensions from the longest to the shortest', () => {
+    expect(getExtensions('archive.tar.gz')).toEqual(['tar.gz', 'gz']);
+    expect(getExtensions('Photo.JPG')).toEqual(['jpg']);
+    expect(getExtensions('README')).toEqual([]);
+  });
+
+  it('does not treat the leading dot of a hidden file as an extension', () => {
+    expect(getExtensions('.gitignore')).toEqual([]);
+    expect(getExtensions('.env.local')).toEqual(['local']);
+  });
+});
+
+describe('getMimeType()', () => {
+  it('looks up the common types', () => {
+    expect(getMimeType('photo.JPEG')).toBe('image/jpeg');
+    expect(getMimeType('data.parquet')).toBe('application/vnd.apache.parquet');
+    expect(getMimeType('model.step')).toBeUndefined();
+    expect(getMimeType('.gitignore')).toBeUndefined();
+  });
+
+  it('prefers the longest matching extension', () => {
+    registerMimeTypes({ 'tar.gz': 'application/x-compressed-tar' });
+    expect(getMimeType('archive.tar.gz')).toBe('application/x-compressed-tar');
+    expect(getMimeType('notes.gz')).toBe('application/gzip');
+  });
+
+  it('checks the given, then the registered, then the common types', () => {
+    registerMimeTypes({ '.GZ': 'application/x-gzip', step: 'model/step' });
+    expect(getMimeType('notes.gz')).toBe('application/x-gzip');
+    expect(getMimeType('model.step')).toBe('model/step');
+    expect(getMimeType('model.step', { '.step': 'application/step' })).toBe('application/step');
+
+    unregisterMimeTypes(['.gz']);
+    expect(getMimeType('notes.gz')).toBe('application/gzip');
+  });
+
+  it('keeps the common types when the mime-db dataset is registered', () => {
+    registerMimeTypes(MIME_DB);
+    expect(getMimeType('song.aac')).toBe('audio/aac');
+    expect(getMimeType('drawing.dwg')).toBe('image/vnd.dwg');
+  });
+});
@@ -0,0 +1,80 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export type StubHandler = (req: StubRequest, res: http.ServerResponse) => void | Promise<void>;
+
+export interface StubServer {
+  url: string;
+  // The requests received so far, without CORS preflights
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+const EXPOSED_HEADERS = ['Location', 'Upload-Offset', 'Upload-Length', 'Tus-Resumable'];
+
+/**
+ * Start an HTTP server on a free local port that answers with the handler.
+ * CORS preflights are accepted, so the server can be called from the jsdom origin.
+ *
+ * @param {StubHandler} handler
+ * @returns {Promise<StubServer>}
+ */
+export async function createStubServer(handler: StubHandler): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const sockets = new Set<import('net').Socket>();
+
+  const server = http.createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS.join(', '));
+
+    if (req.method === 'OPTIONS') {
+      res.setHeader('Access-Control-Allow-Methods', req.headers['access-control-request-method'] || '*');
+      res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || '*');
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', async () => {
+      const request = { method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks) };
+      requests.push(request);
+      try {
+        await handler(request, res);
+      } catch (e) {
+        res.writeHead(500);
+        res.end(`${e}`);
+      }
+    });
+  });
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        // Requests that are never answered would keep the server open
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
+
+export function delay(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
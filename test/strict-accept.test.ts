@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { fileStrictlyAccepted, FILE_DOUBLE_EXTENSION, FILE_EXTENSION_MISMATCH } from '../src/dropzone';
+
+function createFile(name: string, type: string) {
+  return new File(['x'], name, { type });
+}
+
+describe('fileStrictlyAccepted()', () => {
+  it('accepts a file whose type and extension belong to the same entry', () => {
+    const accept = { 'image/png': ['.png'], 'application/pdf': ['.pdf'] };
+    expect(fileStrictlyAccepted(createFile('photo.PNG', 'image/png'), accept)).toEqual([true, null]);
+    expect(fileStrictlyAccepted(createFile('report.pdf', 'application/pdf'), accept)).toEqual([true, null]);
+  });
+
+  it('rejects a type that is accepted with the extension of another entry', () => {
+    const accept = { 'image/png': ['.png'], 'application/pdf': ['.pdf'] };
+    const [accepted, error] = fileStrictlyAccepted(createFile('photo.pdf', 'image/png'), accept);
+    expect(accepted).toBe(false);
+    expect(error).toMatchObject({
+      code: FILE_EXTENSION_MISMATCH,
+      message: 'File extension .pdf does not match the file type PNG',
+      params: { extension: '.pdf', actual: 'image/png' },
+    });
+  });
+
+  it('looks up the extensions of an entry without any', () => {
+    const accept = { 'image/*': [] };
+    expect(fileStrictlyAccepted(createFile('photo.jpg', 'image/jpeg'), accept)).toEqual([true, null]);
+    expect(fileStrictlyAccepted(createFile('photo.txt', 'image/jpeg'), accept)[0]).toBe(false);
+    expect(fileStrictlyAccepted(createFile('photo', 'image/jpeg'), accept)[0]).toBe(false);
+    // With the mappings of the dropzone
+    expect(fileStrictlyAccepted(createFile('scan.raw', 'image/x-raw'), accept, { raw: 'image/x-raw' })).toEqual([
+      true,
+      null,
+    ]);
+  });
+
+  it('rejects executables disguised with a double extension', () => {
+    const [accepted, error] = fileStrictlyAccepted(createFile('invoice.pdf.exe', 'application/x-msdownload'));
+    expect(accepted).toBe(false);
+    expect(error).toMatchObject({ code: FILE_DOUBLE_EXTENSION, params: { extension: '.pdf.exe' } });
+  });
+
+  it('does not mistake a version number for a double extension', () => {
+    expect(fileStrictlyAccepted(createFile('setup-1.2.exe', 'application/x-msdownload'))).toEqual([true, null]);
+    expect(fileStrictlyAccepted(createFile('archive.tar.gz', 'application/gzip'))).toEqual([true, null]);
+  });
+});
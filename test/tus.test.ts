@@ -0,0 +1,217 @@
+import { Blob as NodeBlob } from 'buffer';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createTusTransport, tusFingerprint } from '../src/tus';
+import type { TusOptions, TusUrlStorage } from '../src/tus';
+import type { UploadProgress } from '../src/upload';
+import { createStubServer, StubHandler, StubServer } from './server';
+
+interface TusUpload {
+  length: number;
+  offset: number;
+  data: Buffer;
+}
+
+let server: StubServer | undefined;
+
+afterEach(async () => {
+  if (server) {
+    await server.close();
+    server = undefined;
+  }
+  document.head.querySelectorAll('base').forEach((base) => base.remove());
+});
+
+// A minimal tus server, see https://tus.io/protocols/resumable-upload.
+// The handler can answer a request itself by returning true.
+async function startTusServer(intercept?: (...args: Parameters<StubHandler>) => boolean | void) {
+  const uploads = new Map<string, TusUpload>();
+  let nextId = 0;
+
+  server = await createStubServer((req, res) => {
+    if (intercept && intercept(req, res)) {
+      return;
+    }
+    res.setHeader('Tus-Resumable', '1.0.0');
+
+    if (req.method === 'POST' && req.url === '/files/') {
+      const id = `${++nextId}`;
+      uploads.set(id, {
+        length: parseInt(req.headers['upload-length'] as string, 10),
+        offset: 0,
+        data: Buffer.alloc(0),
+      });
+      // A relative location, which the client resolves against the endpoint
+      res.writeHead(201, { Location: `/files/${id}` });
+      res.end();
+      return;
+    }
+
+    const upload = uploads.get(req.url.replace('/files/', ''));
+    if (!upload) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    if (req.method === 'HEAD') {
+      res.writeHead(200, { 'Upload-Offset': `${upload.offset}`, 'Upload-Length': `${upload.length}` });
+      res.end();
+    } else if (req.method === 'PATCH') {
+      if (parseInt(req.headers['upload-offset'] as string, 10) !== upload.offset) {
+        res.writeHead(409);
+        res.end();
+        return;
+      }
+      upload.data = Buffer.concat([upload.data, req.body]);
+      upload.offset += req.body.length;
+      res.writeHead(204, { 'Upload-Offset': `${upload.offset}` });
+      res.end();
+    } else {
+      res.writeHead(405);
+      res.end();
+    }
+  });
+
+  return { ...server, uploads };
+}
+
+function createStorage() {
+  const items = new Map<string, string>();
+  const storage: TusUrlStorage = {
+    getItem: (key) => (items.has(key) ? items.get(key)! : null),
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+  return { storage, items };
+}
+
+const CONTENT = 'abcdefghij';
+
+// Node's fetch() cannot send the Blobs of jsdom, it would send `[object Blob]`
+function createFile() {
+  const blob = new NodeBlob([CONTENT], { type: 'text/plain' });
+  return Object.assign(blob, { name: 'letters.txt', lastModified: 1000 }) as unknown as File;
+}
+
+function upload(file: File, options: TusOptions) {
+  const progress: UploadProgress[] = [];
+  const promise = createTusTransport(options)(file, {
+    signal: new AbortController().signal,
+    onProgress: (p) => progress.push(p),
+  });
+  return { promise, progress };
+}
+
+function requestLog() {
+  return server!.requests.map(({ method, headers }) =>
+    method === 'PATCH' ? `PATCH ${headers['upload-offset']}` : method
+  );
+}
+
+describe('createTusTransport()', () => {
+  it('creates the upload and sends the file in chunks', async () => {
+    const { url, uploads } = await startTusServer();
+    const { storage, items } = createStorage();
+
+    const { promise, progress } = upload(createFile(), { endpoint: `${url}/files/`, chunkSize: 4, storage });
+    await expect(promise).resolves.toEqual({ url: `${url}/files/1` });
+
+    expect(requestLog()).toEqual(['POST', 'PATCH 0', 'PATCH 4', 'PATCH 8']);
+    const [create] = server!.requests;
+    expect(create.headers['upload-length']).toBe('10');
+    expect(create.headers['tus-resumable']).toBe('1.0.0');
+    expect(create.headers['upload-metadata']).toBe(`filename ${btoa('letters.txt')},filetype ${btoa('text/plain')}`);
+    expect(uploads.get('1')!.data.toString()).toBe(CONTENT);
+    expect(progress.map(({ loaded }) => loaded)).toEqual([0, 4, 8, 10]);
+    // The upload URL is forgotten once the file is uploaded
+    expect(items.size).toBe(0);
+  });
+
+  it('resolves a relative endpoint against the page', async () => {
+    const { url } = await startTusServer();
+    const base = document.createElement('base');
+    base.href = `${url}/app/`;
+    document.head.appendChild(base);
+
+    const { promise } = upload(createFile(), { endpoint: '/files/', storage: createStorage().storage });
+    await expect(promise).resolves.toEqual({ url: `${url}/files/1` });
+  });
+
+  it('resumes an interrupted upload of the same file with its fingerprint', async () => {
+    let patches = 0;
+    const { url, uploads } = await startTusServer((req, res) => {
+      // The connection drops on the second chunk
+      if (req.method === 'PATCH' && ++patches === 2) {
+        res.writeHead(503);
+        res.end();
+        return true;
+      }
+    });
+    const { storage, items } = createStorage();
+    const options = { endpoint: `${url}/files/`, chunkSize: 4, storage };
+
+    await expect(upload(createFile(), options).promise).rejects.toMatchObject({ status: 503 });
+    expect(items.get(tusFingerprint(createFile()))).toBe(`${url}/files/1`);
+
+    // The same file dropped again, as a new File object
+    const { promise, progress } = upload(createFile(), options);
+    await expect(promise).resolves.toEqual({ url: `${url}/files/1` });
+
+    expect(requestLog()).toEqual(['POST', 'PATCH 0', 'PATCH 4', 'HEAD', 'PATCH 4', 'PATCH 8']);
+    expect(progress[0]).toEqual({ loaded: 4, total: 10 });
+    expect(uploads.size).toBe(1);
+    expect(uploads.get('1')!.data.toString()).toBe(CONTENT);
+  });
+
+  it('starts over when the stored upload is gone', async () => {
+    const { url } = await startTusServer();
+    const { storage } = createStorage();
+    storage.setItem(tusFingerprint(createFile()), `${url}/files/unknown`);
+
+    const { promise } = upload(createFile(), { endpoint: `${url}/files/`, storage });
+    await expect(promise).resolves.toEqual({ url: `${url}/files/1` });
+    expect(requestLog()).toEqual(['HEAD', 'POST', 'PATCH 0']);
+  });
+
+  it('re-syncs the offset with a HEAD request on an offset mismatch', async () => {
+    const { url, uploads } = await startTusServer((req) => {
+      // The server got the first chunk of a request whose response was lost
+      const upload = uploads.get('1');
+      if (req.method === 'PATCH' && upload && upload.offset === 0) {
+        upload.data = Buffer.from(CONTENT.slice(0, 4));
+        upload.offset = 4;
+      }
+    });
+
+    const { promise } = upload(createFile(), {
+      endpoint: `${url}/files/`,
+      chunkSize: 4,
+      storage: createStorage().storage,
+    });
+    await expect(promise).resolves.toEqual({ url: `${url}/files/1` });
+
+    expect(requestLog()).toEqual(['POST', 'PATCH 0', 'HEAD', 'PATCH 4', 'PATCH 8']);
+    expect(uploads.get('1')!.data.toString()).toBe(CONTENT);
+  });
+
+  it('fails when the server does not move the offset forward', async () => {
+    const { url } = await startTusServer((req, res) => {
+      if (req.method === 'PATCH') {
+        res.writeHead(204, { 'Upload-Offset': '0' });
+        res.end();
+        return true;
+      }
+    });
+
+    const { promise } = upload(createFile(), {
+      endpoint: `${url}/files/`,
+      chunkSize: 4,
+      storage: createStorage().storage,
+    });
+    await expect(promise).rejects.toThrow(/offset 0 after 0/);
+    expect(requestLog()).toEqual(['POST', 'PATCH 0']);
+  });
+});
@@ -0,0 +1,186 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UploadOptions, UploadStatus, useDropzoneUpload } from '../src/upload';
+import { createStubServer, delay, StubHandler, StubServer } from './server';
+
+let server: StubServer | undefined;
+
+afterEach(async () => {
+  if (server) {
+    await server.close();
+    server = undefined;
+  }
+});
+
+async function start(handler: StubHandler) {
+  server = await createStubServer(handler);
+  return server;
+}
+
+// Render the hook and record the distinct statuses each upload goes through
+function renderUpload(options: UploadOptions) {
+  const statuses = new Map<string, UploadStatus[]>();
+  const hook = renderHook(() => {
+    const state = useDropzoneUpload(options);
+    state.uploads.forEach(({ id, status }) => {
+      const seen = statuses.get(id) || [];
+      if (seen[seen.length - 1] !== status) {
+        seen.push(status);
+      }
+      statuses.set(id, seen);
+    });
+    return state;
+  });
+  return { ...hook, statuses };
+}
+
+function createFile(name = 'hello.txt', content = 'hello world') {
+  return new File([content], name, { type: 'text/plain' });
+}
+
+describe('useDropzoneUpload()', () => {
+  it('uploads a file and goes from queued to uploading to done', async () => {
+    const { url, requests } = await start((req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ id: 42 }));
+    });
+    const onUploadSuccess = vi.fn();
+    const { result, statuses } = renderUpload({ url: `${url}/upload`, onUploadSuccess });
+
+    act(() => result.current.addFiles([createFile()]));
+    await waitFor(() => expect(result.current.uploads[0].status).toBe('done'));
+
+    const [item] = result.current.uploads;
+    expect(statuses.get(item.id)).toEqual(['queued', 'uploading', 'done']);
+    expect(item.response).toEqual({ id: 42 });
+    expect(item.attempts).toBe(1);
+    expect(item.loaded).toBe(item.total);
+    expect(result.current.isUploading).toBe(false);
+    expect(onUploadSuccess).toHaveBeenCalledWith(expect.objectContaining({ id: item.id }), { id: 42 });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers['content-type']).toMatch(/^multipart\/form-data/);
+    expect(requests[0].body.toString()).toContain('name="file"; filename="hello.txt"');
+    expect(requests[0].body.toString()).toContain('hello world');
+  });
+
+  it('retries server errors with an exponential backoff', async () => {
+    const times: number[] = [];
+    const { url } = await start((req, res) => {
+      times.push(Date.now());
+      res.writeHead(times.length < 3 ? 503 : 200);
+      res.end('ok');
+    });
+    const { result, statuses } = renderUpload({ url, retryDelay: 50 });
+
+    act(() => result.current.addFiles([createFile()]));
+    await waitFor(() => expect(result.current.uploads[0].status).toBe('done'));
+
+    const [item] = result.current.uploads;
+    expect(item.attempts).toBe(3);
+    expect(statuses.get(item.id)).toEqual([
+      'queued',
+      'uploading',
+      'queued',
+      'uploading',
+      'queued',
+      'uploading',
+      'done',
+    ]);
+    // 50ms before the first retry, doubled for the second one
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+    expect(times[2] - times[1]).toBeGreaterThanOrEqual(95);
+  });
+
+  it('does not retry client errors', async () => {
+    const { url, requests } = await start((req, res) => {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Bad file' }));
+    });
+    const onUploadError = vi.fn();
+    const { result } = renderUpload({ url, retryDelay: 10, onUploadError });
+
+    act(() => result.current.addFiles([createFile()]));
+    await waitFor(() => expect(result.current.uploads[0].status).toBe('failed'));
+
+    const [item] = result.current.uploads;
+    expect(requests).toHaveLength(1);
+    expect(item.attempts).toBe(1);
+    expect(item.error).toMatchObject({ status: 400, response: { error: 'Bad file' } });
+    expect(onUploadError).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the max number of retries', async () => {
+    const { url, requests } = await start((req, res) => {
+      res.writeHead(500);
+      res.end();
+    });
+    const { result } = renderUpload({ url, retries: 2, retryDelay: 10 });
+
+    act(() => result.current.addFiles([createFile()]));
+    await waitFor(() => expect(result.current.uploads[0].status).toBe('failed'));
+
+    expect(requests).toHaveLength(3);
+    expect(result.current.uploads[0].attempts).toBe(3);
+  });
+
+  it('uploads at most `concurrency` files at the same time', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const { url } = await start(async (req, res) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(50);
+      inFlight--;
+      res.end('ok');
+    });
+    const { result } = renderUpload({ url, concurrency: 2 });
+
+    act(() => result.current.addFiles([1, 2, 3, 4, 5].map((i) => createFile(`${i}.txt`))));
+    await waitFor(() => expect(result.current.uploads.every(({ status }) => status === 'done')).toBe(true), {
+      timeout: 2000,
+    });
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('aborts uploads in progress and queued uploads', async () => {
+    const { url, requests } = await start(() => {
+      // Never answer
+    });
+    const { result } = renderUpload({ url, concurrency: 1 });
+
+    act(() => result.current.addFiles([createFile('a.txt'), createFile('b.txt')]));
+    await waitFor(() => expect(requests).toHaveLength(1));
+    const [first, second] = result.current.uploads;
+    expect(first.status).toBe('uploading');
+    expect(second.status).toBe('queued');
+
+    act(() => result.current.abort(second.id));
+    await waitFor(() => expect(result.current.uploads[1].status).toBe('aborted'));
+    act(() => result.current.abort(first.id));
+    await waitFor(() => expect(result.current.uploads[0].status).toBe('aborted'));
+
+    expect(result.current.isUploading).toBe(false);
+    // The aborted queued upload is not started when the slot frees up
+    await delay(50);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('aborts the uploads waiting for a retry', async () => {
+    const { url, requests } = await start((req, res) => {
+      res.writeHead(503);
+      res.end();
+    });
+    const { result } = renderUpload({ url, retryDelay: 10000 });
+
+    act(() => result.current.addFiles([createFile()]));
+    await waitFor(() => expect(result.current.uploads[0].error).toBeDefined());
+    expect(result.current.uploads[0].status).toBe('queued');
+
+    act(() => result.current.abortAll());
+    await waitFor(() => expect(result.current.uploads[0].status).toBe('aborted'));
+    expect(requests).toHaveLength(1);
+  });
+});